@@ -115,6 +115,7 @@ function buildHelp(): string {
     cmd("job status <job-id>", "Check job status"),
     cmd("job active [page] [pageSize]", "List active jobs"),
     cmd("job completed [page] [pageSize]", "List completed jobs"),
+    cmd("job simulate <offering>", "Run a simulated job through your seller"),
     cmd("bounty create [query]", "Create a new bounty (interactive or flags)"),
     flag("--title <text>", "Bounty title"),
     flag("--description <text>", "Bounty description"),
@@ -136,6 +137,10 @@ function buildHelp(): string {
     cmd("sell delete <offering-name>", "Delist offering from ACP"),
     cmd("sell list", "Show all offerings with status"),
     cmd("sell inspect <offering-name>", "Detailed view of an offering"),
+    cmd("sell test <offering-name>", "Run an offering's handlers locally"),
+    flag("--requirements '<json>'", "Requirements for the test job"),
+    cmd("sell test [offering-name] --all", "Run offering fixtures (recorded HTTP)"),
+    flag("--record", "Re-record HTTP responses from the network"),
     "",
     cmd("sell resource init <resource-name>", "Scaffold a new resource"),
     cmd("sell resource create <resource-name>", "Register resource on ACP"),
@@ -146,11 +151,16 @@ function buildHelp(): string {
     cmd("serve start", "Start the seller runtime"),
     cmd("serve stop", "Stop the seller runtime"),
     cmd("serve status", "Show seller runtime status"),
+    cmd("serve failed", "List failed deliveries and handler errors"),
+    cmd("serve retry <job-id>", "Replay a job's failed calls"),
+    flag("--execute", "Re-run a failed handler, then deliver"),
     cmd("serve logs", "Show recent seller logs"),
     flag("--follow, -f", "Tail logs in real time"),
     flag("--offering <name>", "Filter logs by offering name"),
     flag("--job <id>", "Filter logs by job ID"),
-    flag("--level <level>", "Filter logs by level (e.g. error)"),
+    flag("--level <level>", "Minimum level: debug, info, warn, error"),
+    flag("--since <time>", "Entries from this time on (e.g. 15m, 2h, 2025-01-31T12:00)"),
+    flag("--until <time>", "Entries up to this time"),
     "",
     section("Cloud Deployment"),
     cmd("serve deploy railway", "Deploy seller runtime to Railway"),
@@ -160,12 +170,19 @@ function buildHelp(): string {
     flag("--follow, -f", "Tail logs in real time"),
     flag("--offering <name>", "Filter logs by offering name"),
     flag("--job <id>", "Filter logs by job ID"),
-    flag("--level <level>", "Filter logs by level (e.g. error)"),
+    flag("--level <level>", "Minimum level: debug, info, warn, error"),
+    flag("--since <time>", "Entries from this time on (e.g. 15m, 2h, 2025-01-31T12:00)"),
+    flag("--until <time>", "Entries up to this time"),
     cmd("serve deploy railway teardown", "Remove Railway deployment"),
     cmd("serve deploy railway env", "List env vars on Railway"),
     cmd("serve deploy railway env set", "Set env var (KEY=value)"),
     cmd("serve deploy railway env delete", "Delete an env var"),
     "",
+    section("Local Testing"),
+    cmd("mock", "Run a local ACP mock server (no API key needed)"),
+    flag("--port <n>", "Port to listen on (default: 8787)"),
+    flag("--no-auto-pay", "Wait for POST /mock/jobs/:id/pay instead of auto-paying"),
+    "",
     section("Flags"),
     flag("--json", "Output raw JSON (for agents/scripts)"),
     flag("--help, -h", "Show this help"),
@@ -266,40 +283,49 @@ function buildCommandHelp(command: string): string | undefined {
         cmd("completed [page] [pageSize]", "List completed jobs"),
         `    ${dim("Pagination: positional args or --page N --pageSize N")}`,
         "",
+        cmd("simulate <offering>", "Drive a simulated job through your own offering"),
+        flag("--requirements '<json>'", "Buyer requirements (JSON)"),
+        flag("--no-memo", "Omit the negotiation memo"),
+        flag("--memo-content <text>", "Use raw text as the negotiation memo"),
+        flag("--no-memo-to-sign", "Omit memoToSign on the REQUEST event"),
+        flag("--pay-after <minutes>", "Buyer pays this long after the payment request"),
+        `    ${dim("Nothing is sent to ACP — API calls are captured and printed")}`,
+        "",
       ].join("\n"),
 
-    bounty: () => [
-      "",
-      `  ${bold("acp bounty")} ${dim("— Manage local bounty lifecycle")}`,
-      "",
-      cmd("create [query]", "Create a bounty (interactive or via flags)"),
-      `    ${dim('Interactive:  acp bounty create "video production"')}`,
-      `    ${dim('With flags:   acp bounty create --title "Music video" --description "Cute girl dancing animation for my song" --budget 50 --tags "video,music" --category digital --source-channel telegram --json')}`,
-      "",
-      flag("--title <text>", "Bounty title (triggers non-interactive mode, also used for update)"),
-      flag("--description <text>", "Description (defaults to title, also used for update)"),
-      flag("--budget <number>", "Budget in USD (also used for update)"),
-      flag("--category <digital|physical>", "Category (default: digital)"),
-      flag("--tags <csv>", "Comma-separated tags (also used for update)"),
-      flag("--source-channel <name>", "Channel where bounty originated (e.g. telegram, webchat)"),
-      flag("--json", "Output result in JSON format (for create)"),
-      "",
-      cmd("poll", "Poll all active bounties and update local state"),
-      cmd("list", "List active local bounties"),
-      cmd("status <bounty-id>", "Fetch remote match status for a bounty"),
-      cmd(
-        "select <bounty-id>",
-        "Pick pending_match candidate, create ACP job, confirm match"
-      ),
-      cmd("update <bounty-id>", "Update an open bounty"),
-      flag("--title <text>", "New title (for update)"),
-      flag("--description <text>", "New description (for update)"),
-      flag("--budget <number>", "New budget in USD (for update)"),
-      flag("--tags <csv>", "New tags (for update)"),
-      "",
-      cmd("cleanup <bounty-id>", "Remove local bounty state"),
-      "",
-    ].join("\n"),
+    bounty: () =>
+      [
+        "",
+        `  ${bold("acp bounty")} ${dim("— Manage local bounty lifecycle")}`,
+        "",
+        cmd("create [query]", "Create a bounty (interactive or via flags)"),
+        `    ${dim('Interactive:  acp bounty create "video production"')}`,
+        `    ${dim('With flags:   acp bounty create --title "Music video" --description "Cute girl dancing animation for my song" --budget 50 --tags "video,music" --category digital --source-channel telegram --json')}`,
+        "",
+        flag(
+          "--title <text>",
+          "Bounty title (triggers non-interactive mode, also used for update)"
+        ),
+        flag("--description <text>", "Description (defaults to title, also used for update)"),
+        flag("--budget <number>", "Budget in USD (also used for update)"),
+        flag("--category <digital|physical>", "Category (default: digital)"),
+        flag("--tags <csv>", "Comma-separated tags (also used for update)"),
+        flag("--source-channel <name>", "Channel where bounty originated (e.g. telegram, webchat)"),
+        flag("--json", "Output result in JSON format (for create)"),
+        "",
+        cmd("poll", "Poll all active bounties and update local state"),
+        cmd("list", "List active local bounties"),
+        cmd("status <bounty-id>", "Fetch remote match status for a bounty"),
+        cmd("select <bounty-id>", "Pick pending_match candidate, create ACP job, confirm match"),
+        cmd("update <bounty-id>", "Update an open bounty"),
+        flag("--title <text>", "New title (for update)"),
+        flag("--description <text>", "New description (for update)"),
+        flag("--budget <number>", "New budget in USD (for update)"),
+        flag("--tags <csv>", "New tags (for update)"),
+        "",
+        cmd("cleanup <bounty-id>", "Remove local bounty state"),
+        "",
+      ].join("\n"),
 
     token: () =>
       [
@@ -339,6 +365,10 @@ function buildCommandHelp(command: string): string | undefined {
         cmd("delete <offering-name>", "Delist offering from ACP"),
         cmd("list", "Show all offerings with status"),
         cmd("inspect <offering-name>", "Detailed view of an offering"),
+        cmd("test <offering-name>", "Run handlers locally (no marketplace)"),
+        flag("--requirements '<json>'", "Requirements for the test job"),
+        cmd("test [offering-name] --all", "Run fixtures/ cases with recorded HTTP"),
+        flag("--record", "Re-record HTTP responses from the network"),
         "",
         cmd("resource init <resource-name>", "Scaffold a new resource"),
         cmd("resource create <resource-name>", "Register resource on ACP"),
@@ -348,6 +378,7 @@ function buildCommandHelp(command: string): string | undefined {
         `  ${dim("Workflow:")}`,
         `    acp sell init my_service`,
         `    ${dim("# Edit offerings/my_service/offering.json and handlers.ts")}`,
+        `    acp sell test my_service --requirements '{"symbol":"ETH"}'`,
         `    acp sell create my_service`,
         `    acp serve start`,
         "",
@@ -361,11 +392,17 @@ function buildCommandHelp(command: string): string | undefined {
         cmd("start", "Start the seller runtime (listens for jobs)"),
         cmd("stop", "Stop the seller runtime"),
         cmd("status", "Show whether the seller is running"),
-        cmd("logs", "Show recent seller logs (last 50 lines)"),
+        cmd("failed", "List failed deliveries and handler errors"),
+        cmd("retry <job-id>", "Replay a job's failed calls (no re-execution)"),
+        flag("--execute", "Re-run a failed handler, then deliver its result"),
+        flag("--refunded", "Mark refunds owed to the buyer as returned"),
+        cmd("logs", "Show recent seller logs (last 50 entries; --json for raw lines)"),
         flag("--follow, -f", "Tail logs in real time (Ctrl+C to stop)"),
         flag("--offering <name>", "Filter logs by offering name"),
         flag("--job <id>", "Filter logs by job ID"),
-        flag("--level <level>", "Filter logs by level (e.g. error)"),
+        flag("--level <level>", "Minimum level: debug, info, warn, error"),
+        flag("--since <time>", "Entries from this time on (e.g. 15m, 2h, 2025-01-31T12:00)"),
+        flag("--until <time>", "Entries up to this time"),
         "",
         cmd("deploy railway", "Deploy seller runtime to Railway"),
         cmd("deploy railway setup", "First-time Railway project setup"),
@@ -374,7 +411,9 @@ function buildCommandHelp(command: string): string | undefined {
         flag("--follow, -f", "Tail logs in real time"),
         flag("--offering <name>", "Filter logs by offering name"),
         flag("--job <id>", "Filter logs by job ID"),
-        flag("--level <level>", "Filter logs by level (e.g. error)"),
+        flag("--level <level>", "Minimum level: debug, info, warn, error"),
+        flag("--since <time>", "Entries from this time on (e.g. 15m, 2h, 2025-01-31T12:00)"),
+        flag("--until <time>", "Entries up to this time"),
         cmd("deploy railway teardown", "Remove Railway deployment"),
         cmd("deploy railway env", "List env vars on Railway"),
         cmd("deploy railway env set KEY=val", "Set an env var"),
@@ -420,6 +459,19 @@ function buildCommandHelp(command: string): string | undefined {
         `  ${dim("Note: Always uses GET requests. Params are appended as query string.")}`,
         "",
       ].join("\n"),
+
+    mock: () =>
+      [
+        "",
+        `  ${bold("acp mock")} ${dim("— Local stand-in for the ACP API, bounty API and socket")}`,
+        "",
+        flag("--port <n>", "Port to listen on (default: 8787)"),
+        flag("--no-auto-pay", "Wait for POST /mock/jobs/:id/pay instead of auto-paying"),
+        "",
+        `  ${dim("Point the CLI and seller at it with ACP_API_URL, ACP_SOCKET_URL,")}`,
+        `  ${dim("ACP_BOUNTY_API_URL and SEARCH_URL (printed on start).")}`,
+        "",
+      ].join("\n"),
   };
 
   return h[command]?.();
@@ -529,6 +581,17 @@ async function main(): Promise<void> {
     });
   }
 
+  // Mock server runs locally — no API key required
+  if (command === "mock") {
+    const mock = await import("../src/commands/mock.js");
+    const args = [subcommand, ...rest].filter(Boolean);
+    const port = getFlagValue(args, "--port");
+    return mock.start({
+      port: port !== undefined ? Number(port) : undefined,
+      autoPay: !hasFlag(args, "--no-auto-pay"),
+    });
+  }
+
   // All other commands need API key
   requireApiKey();
 
@@ -565,6 +628,30 @@ async function main(): Promise<void> {
         }
         return job.create(walletAddr, offering, requirements);
       }
+      if (subcommand === "simulate") {
+        const reqJson = getFlagValue(rest, "--requirements");
+        const payAfter = getFlagValue(rest, "--pay-after");
+        if (payAfter !== undefined && !(Number(payAfter) >= 0)) {
+          console.error("Error: --pay-after must be a number of minutes");
+          process.exit(1);
+        }
+        let requirements: Record<string, unknown> = {};
+        if (reqJson) {
+          try {
+            requirements = JSON.parse(reqJson);
+          } catch {
+            console.error("Error: Invalid JSON in --requirements");
+            process.exit(1);
+          }
+        }
+        return job.simulate(rest[0], {
+          requirements,
+          noMemo: hasFlag(rest, "--no-memo"),
+          memoContent: getFlagValue(rest, "--memo-content"),
+          noMemoToSign: hasFlag(rest, "--no-memo-to-sign"),
+          payAfter: payAfter !== undefined ? Number(payAfter) : undefined,
+        });
+      }
       if (subcommand === "status") {
         return job.status(rest[0]);
       }
@@ -686,6 +773,24 @@ async function main(): Promise<void> {
       if (subcommand === "delete") return sell.del(rest[0]);
       if (subcommand === "list") return sell.list();
       if (subcommand === "inspect") return sell.inspect(rest[0]);
+      if (subcommand === "test") {
+        const reqJson = getFlagValue(rest, "--requirements");
+        let requirements: Record<string, unknown> = {};
+        if (reqJson) {
+          try {
+            requirements = JSON.parse(reqJson);
+          } catch {
+            console.error("Error: Invalid JSON in --requirements");
+            process.exit(1);
+          }
+        }
+        const name = rest[0]?.startsWith("-") ? undefined : rest[0];
+        return sell.test(name, {
+          requirements,
+          all: hasFlag(rest, "--all"),
+          record: hasFlag(rest, "--record"),
+        });
+      }
       console.log(buildCommandHelp("sell"));
       return;
     }
@@ -695,11 +800,20 @@ async function main(): Promise<void> {
       if (subcommand === "start") return serve.start();
       if (subcommand === "stop") return serve.stop();
       if (subcommand === "status") return serve.status();
+      if (subcommand === "failed") return serve.failed();
+      if (subcommand === "retry") {
+        return serve.retry(rest[0], {
+          execute: hasFlag(rest, "--execute"),
+          refunded: hasFlag(rest, "--refunded"),
+        });
+      }
       if (subcommand === "logs") {
         const filter = {
           offering: getFlagValue(rest, "--offering"),
           job: getFlagValue(rest, "--job"),
           level: getFlagValue(rest, "--level"),
+          since: getFlagValue(rest, "--since"),
+          until: getFlagValue(rest, "--until"),
         };
         return serve.logs(hasFlag(rest, "--follow", "-f"), filter);
       }
@@ -717,6 +831,8 @@ async function main(): Promise<void> {
               offering: getFlagValue(logsArgs, "--offering"),
               job: getFlagValue(logsArgs, "--job"),
               level: getFlagValue(logsArgs, "--level"),
+              since: getFlagValue(logsArgs, "--since"),
+              until: getFlagValue(logsArgs, "--until"),
             };
             return deploy.logs(hasFlag(logsArgs, "--follow", "-f"), filter);
           }
@@ -21,10 +21,11 @@ import { readConfig, writeConfig, getActiveAgent, sanitizeAgentName, ROOT } from
 import type { DeployInfo, AgentEntry } from "../lib/config.js";
 import { generateDockerfile, generateDockerignore } from "../deploy/docker.js";
 import * as railway from "../deploy/railway.js";
-import type { LogFilter } from "../deploy/railway.js";
+import { logQueryFromFlags, type LogFilter } from "./serve.js";
 
 const DOCKERFILE_PATH = path.resolve(ROOT, "Dockerfile");
 const DOCKERIGNORE_PATH = path.resolve(ROOT, ".dockerignore");
+const RAILWAY_CONFIG_PATH = path.resolve(ROOT, "railway.json");
 
 function getOfferingsRoot(agentName: string): string {
   return path.resolve(ROOT, "src", "seller", "offerings", sanitizeAgentName(agentName));
@@ -140,7 +141,7 @@ function listLocalOfferings(agentName: string): string[] {
     .map((entry) => entry.name);
 }
 
-function ensureDockerFiles(): void {
+function ensureDeployFiles(): void {
   if (fs.existsSync(DOCKERFILE_PATH)) {
     output.log("  Using existing Dockerfile.");
   } else {
@@ -154,6 +155,13 @@ function ensureDockerFiles(): void {
     fs.writeFileSync(DOCKERIGNORE_PATH, generateDockerignore());
     output.success("Generated .dockerignore");
   }
+
+  if (fs.existsSync(RAILWAY_CONFIG_PATH)) {
+    output.log("  Using existing railway.json.");
+  } else {
+    fs.writeFileSync(RAILWAY_CONFIG_PATH, railway.generateRailwayConfig());
+    output.success("Generated railway.json (health check on /healthz)");
+  }
 }
 
 // -- Commands --
@@ -232,8 +240,8 @@ export async function deploy(): Promise<void> {
     );
   }
 
-  // Generate Docker files if missing
-  ensureDockerFiles();
+  // Generate Docker files and railway.json if missing
+  ensureDeployFiles();
 
   // Show what's being deployed
   output.log(`\n  Agent:     ${agent.name}`);
@@ -308,8 +316,9 @@ export async function status(): Promise<void> {
 }
 
 export async function logs(follow: boolean = false, filter: LogFilter = {}): Promise<void> {
+  const query = logQueryFromFlags(filter);
   await linkToCurrentAgent();
-  railway.streamLogs(follow, filter);
+  railway.streamLogs(follow, query);
 }
 
 export async function teardown(): Promise<void> {
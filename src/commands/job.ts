@@ -3,12 +3,14 @@
 // acp job status <jobId>
 // acp job active
 // acp job completed
+// acp job simulate <offering> [--requirements '{}']
 // =============================================================================
 
 import client from "../lib/client.js";
-import { formatPrice } from "../lib/config.js";
+import { formatPrice, getActiveAgent, sanitizeAgentName } from "../lib/config.js";
 import * as output from "../lib/output.js";
 import { getBountyByJobId } from "../lib/bounty.js";
+import { runSimulation, type Simulation } from "../seller/runtime/simulate.js";
 
 export async function create(
   agentWalletAddress: string,
@@ -186,3 +188,83 @@ export async function completed(options: JobListOptions = {}): Promise<void> {
     output.fatal(`Failed to get completed jobs: ${e instanceof Error ? e.message : String(e)}`);
   }
 }
+
+// -- Simulate: drive a local job through every phase --
+
+export interface SimulateFlags {
+  requirements?: Record<string, unknown>;
+  /** Leave out the negotiation memo. */
+  noMemo?: boolean;
+  /** Raw negotiation memo content. */
+  memoContent?: string;
+  /** Leave memoToSign unset on the REQUEST event. */
+  noMemoToSign?: boolean;
+  /** Minutes the buyer takes to pay after the payment request. */
+  payAfter?: number;
+}
+
+function printSimulation(sim: Simulation): void {
+  output.heading(`Simulated Job ${sim.jobId} — ${sim.offering}`);
+  for (const phase of sim.phases) {
+    output.log(`\n  ${output.colors.bold(phase.phase)}`);
+    output.log(
+      `    ${output.colors.dim(`memos: ${phase.event.memos.length}  memoToSign: ${phase.event.memoToSign ?? "-"}`)}`
+    );
+    if (phase.requests.length === 0) {
+      output.log(`    ${output.colors.dim("(no API calls)")}`);
+    }
+    for (const req of phase.requests) {
+      output.log(`    POST ${req.path}  ${output.colors.dim(req.headers["Idempotency-Key"])}`);
+      output.log(
+        JSON.stringify(req.body, null, 2)
+          .split("\n")
+          .map((line) => `      ${line}`)
+          .join("\n")
+      );
+    }
+    for (const step of phase.journal) {
+      const detail = step.data?.error ?? step.data?.reason;
+      output.log(
+        `    ${output.colors.dim(`journal: ${step.step}${detail ? ` (${detail})` : ""}`)}`
+      );
+    }
+  }
+  for (const entry of sim.deadLetters) {
+    output.log(`\n  ${output.colors.red(`Dead letter: ${entry.action} — ${entry.error}`)}`);
+  }
+  const outcome =
+    sim.outcome === "completed"
+      ? output.colors.green("COMPLETED")
+      : sim.outcome === "rejected"
+        ? output.colors.yellow("REJECTED")
+        : output.colors.red("STALLED");
+  output.log(`\n  ${outcome}${sim.reason ? `  ${sim.reason}` : ""}\n`);
+}
+
+export async function simulate(offeringName: string, flags: SimulateFlags = {}): Promise<void> {
+  if (!offeringName) {
+    output.fatal("Usage: acp job simulate <offering> [--requirements '<json>']");
+  }
+
+  const agent = getActiveAgent();
+  if (!agent) {
+    output.fatal("No active agent. Run `acp setup` first.");
+  }
+
+  const sim = await output.withLogsOnStderr(() =>
+    runSimulation({
+      offering: offeringName,
+      requirements: (flags.requirements ?? {}) as Record<string, any>,
+      seller: {
+        agentDirName: sanitizeAgentName(agent.name),
+        walletAddress: agent.walletAddress,
+      },
+      negotiationMemo: !flags.noMemo,
+      memoContent: flags.memoContent,
+      memoToSign: !flags.noMemoToSign,
+      payAfterMinutes: flags.payAfter,
+    })
+  );
+
+  output.output(sim, printSimulation);
+}
@@ -0,0 +1,68 @@
+// =============================================================================
+// acp mock [--port <n>] [--no-auto-pay]  — Run the local ACP mock server
+// =============================================================================
+
+import * as output from "../lib/output.js";
+import { DEFAULT_MOCK_PORT, startMockServer } from "../mock/server.js";
+
+export interface MockOptions {
+  port?: number;
+  autoPay?: boolean;
+}
+
+/** Env vars that point the CLI and seller runtime at a mock server. */
+export function mockEnv(url: string): Record<string, string> {
+  return {
+    ACP_API_URL: url,
+    ACP_SOCKET_URL: url,
+    ACP_BOUNTY_API_URL: url,
+    SEARCH_URL: `${url}/api/agents/v5/search`,
+  };
+}
+
+export async function start(opts: MockOptions = {}): Promise<void> {
+  if (opts.port !== undefined && !(Number.isInteger(opts.port) && opts.port >= 0)) {
+    output.fatal("--port must be a non-negative integer");
+  }
+
+  let server;
+  try {
+    server = await startMockServer({ port: opts.port ?? DEFAULT_MOCK_PORT, autoPay: opts.autoPay });
+  } catch (err) {
+    output.fatal(
+      `Failed to start mock server: ${err instanceof Error ? err.message : String(err)}`
+    );
+  }
+
+  const env = mockEnv(server.url);
+  const agents = [...server.state.agents.values()].map((a) => ({
+    name: a.name,
+    walletAddress: a.walletAddress,
+  }));
+
+  output.output({ url: server.url, env, agents }, (data) => {
+    output.heading("ACP Mock Server");
+    output.field("URL", data.url);
+    output.field("Auto-pay", opts.autoPay !== false ? "on" : "off");
+    output.log("\n  Point the CLI at it:\n");
+    for (const [key, value] of Object.entries(data.env)) {
+      output.log(`    export ${key}=${value}`);
+    }
+    if (data.agents.length > 0) {
+      output.log("\n  Agents (from config.json):");
+      for (const a of data.agents) output.log(`    ${a.name}  ${a.walletAddress}`);
+    }
+    output.log("\n  Create a test job for your seller:");
+    output.log(
+      `    curl -X POST ${data.url}/mock/jobs -H 'Content-Type: application/json' \\\n` +
+        `      -d '{"jobOfferingName":"<offering>","serviceRequirements":{}}'`
+    );
+    output.log("\n  Press Ctrl+C to stop.\n");
+  });
+
+  const shutdown = () => {
+    server.close().finally(() => process.exit(0));
+  };
+  process.on("SIGINT", shutdown);
+  process.on("SIGTERM", shutdown);
+}
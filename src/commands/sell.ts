@@ -4,6 +4,8 @@
 // acp sell delete <name>   — Delist offering from ACP
 // acp sell list            — Show all offerings with status
 // acp sell inspect <name>  — Detailed view of single offering
+// acp sell test <name>     — Run an offering's handlers locally
+// acp sell test --all      — Run offering fixtures with recorded HTTP
 //
 // acp sell resource init <name>     — Scaffold a new resource
 // acp sell resource create <name>   — Validate + register resource on ACP
@@ -26,6 +28,9 @@ import {
 } from "../lib/api.js";
 import { getMyAgentInfo } from "../lib/wallet.js";
 import { formatPrice, getActiveAgent, sanitizeAgentName } from "../lib/config.js";
+import { loadOffering, type LoadedOffering } from "../seller/runtime/offerings.js";
+import { runOfferingTest, type TestRun } from "../seller/runtime/harness.js";
+import { listFixtures, runFixture, type FixtureResult } from "../seller/runtime/fixtures.js";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -117,6 +122,8 @@ interface OfferingJson {
   requiredFunds: boolean;
   requirement?: Record<string, any>;
   deliverable?: string;
+  deliverableSchema?: Record<string, any>;
+  concurrency?: number;
 }
 
 interface ValidationResult {
@@ -211,10 +218,60 @@ function validateOfferingJson(filePath: string): ValidationResult {
     result.valid = false;
     result.errors.push('offering.json: "requiredFunds" must be true or false');
   }
+  if (
+    json.slaMinutes !== undefined &&
+    (typeof json.slaMinutes !== "number" || !(json.slaMinutes > 0))
+  ) {
+    result.valid = false;
+    result.errors.push(
+      'offering.json: "slaMinutes" must be a positive number (minutes the buyer expects delivery within)'
+    );
+  }
+  if (
+    json.concurrency !== undefined &&
+    (!Number.isInteger(json.concurrency) || json.concurrency < 1)
+  ) {
+    result.valid = false;
+    result.errors.push(
+      'offering.json: "concurrency" must be a positive integer (max jobs of this offering run at once)'
+    );
+  }
+  if (
+    json.deliverableSchema !== undefined &&
+    (typeof json.deliverableSchema !== "object" ||
+      json.deliverableSchema === null ||
+      Array.isArray(json.deliverableSchema))
+  ) {
+    result.valid = false;
+    result.errors.push(
+      'offering.json: "deliverableSchema" must be a JSON Schema object describing the deliverable'
+    );
+  }
 
   return result;
 }
 
+const HANDLER_NAMES = [
+  "executeJob",
+  "validateRequirements",
+  "requestPayment",
+  "requestAdditionalFunds",
+  "quotePrice",
+] as const;
+
+/**
+ * Whether handlers.ts exports `name` — as a (possibly async) function
+ * declaration, a const/let binding (arrow or function expression, optionally
+ * typed), or through an `export { ... }` list.
+ */
+function hasExport(content: string, name: string): boolean {
+  return [
+    new RegExp(`export\\s+(async\\s+)?function\\s+${name}\\s*[<(]`),
+    new RegExp(`export\\s+(const|let|var)\\s+${name}\\b\\s*(:[^=]+)?=`),
+    new RegExp(`export\\s*\\{[^}]*\\b${name}\\b[^}]*\\}`),
+  ].some((p) => p.test(content));
+}
+
 function validateHandlers(filePath: string, requiredFunds?: boolean): ValidationResult {
   const result: ValidationResult = { valid: true, errors: [], warnings: [] };
 
@@ -226,31 +283,15 @@ function validateHandlers(filePath: string, requiredFunds?: boolean): Validation
 
   const content = fs.readFileSync(filePath, "utf-8");
 
-  const executeJobPatterns = [
-    /export\s+(async\s+)?function\s+executeJob\s*\(/,
-    /export\s+const\s+executeJob\s*=\s*(async\s*)?\(/,
-    /export\s+const\s+executeJob\s*=\s*(async\s*)?function/,
-    /export\s*\{\s*[^}]*executeJob[^}]*\}/,
-  ];
-
-  if (!executeJobPatterns.some((p) => p.test(content))) {
+  if (!hasExport(content, "executeJob")) {
     result.valid = false;
     result.errors.push(
       'handlers.ts: must export an "executeJob" function — this is the required handler that runs your service logic'
     );
   }
 
-  const hasValidate = [
-    /export\s+(async\s+)?function\s+validateRequirements\s*\(/,
-    /export\s+const\s+validateRequirements\s*=/,
-    /export\s*\{\s*[^}]*validateRequirements[^}]*\}/,
-  ].some((p) => p.test(content));
-
-  const hasFunds = [
-    /export\s+(async\s+)?function\s+requestAdditionalFunds\s*\(/,
-    /export\s+const\s+requestAdditionalFunds\s*=/,
-    /export\s*\{\s*[^}]*requestAdditionalFunds[^}]*\}/,
-  ].some((p) => p.test(content));
+  const hasValidate = hasExport(content, "validateRequirements");
+  const hasFunds = hasExport(content, "requestAdditionalFunds");
 
   if (!hasValidate) {
     result.warnings.push(
@@ -311,22 +352,27 @@ export async function init(offeringName: string): Promise<void> {
 
   fs.writeFileSync(path.join(dir, "offering.json"), JSON.stringify(offeringJson, null, 2) + "\n");
 
-  const handlersTemplate = `import type { ExecuteJobResult, ValidationResult } from "../../../runtime/offeringTypes.js";
+  const handlersTemplate = `import type {
+  ExecuteJobResult,
+  HandlerContext,
+  ValidationResult,
+} from "../../../runtime/offeringTypes.js";
 
 // Required: implement your service logic here
-export async function executeJob(request: any): Promise<ExecuteJobResult> {
+// ctx has the job (jobId, clientAddress, price, memos), a logger, an abort signal and a store
+export async function executeJob(request: any, ctx: HandlerContext): Promise<ExecuteJobResult> {
   // TODO: Implement your service
   return { deliverable: "TODO: Return your result" };
 }
 
 // Optional: validate incoming requests
-export function validateRequirements(request: any): ValidationResult {
+export function validateRequirements(request: any, ctx: HandlerContext): ValidationResult {
   // Return { valid: true } to accept, or { valid: false, reason: "explanation" } to reject
   return { valid: true };
 }
 
 // Optional: provide custom payment request message
-export function requestPayment(request: any): string {
+export function requestPayment(request: any, ctx: HandlerContext): string {
   // Return a custom message/reason for the payment request
   return "Request accepted";
 }
@@ -569,22 +615,7 @@ function detectHandlers(offeringDir: string): string[] {
   if (!fs.existsSync(handlersPath)) return [];
 
   const content = fs.readFileSync(handlersPath, "utf-8");
-  const found: string[] = [];
-
-  if (/export\s+(async\s+)?function\s+executeJob\s*\(/.test(content)) {
-    found.push("executeJob");
-  }
-  if (/export\s+(async\s+)?function\s+validateRequirements\s*\(/.test(content)) {
-    found.push("validateRequirements");
-  }
-  if (/export\s+(async\s+)?function\s+requestPayment\s*\(/.test(content)) {
-    found.push("requestPayment");
-  }
-  if (/export\s+(async\s+)?function\s+requestAdditionalFunds\s*\(/.test(content)) {
-    found.push("requestAdditionalFunds");
-  }
-
-  return found;
+  return HANDLER_NAMES.filter((name) => hasExport(content, name));
 }
 
 export async function inspect(offeringName: string): Promise<void> {
@@ -630,6 +661,162 @@ export async function inspect(offeringName: string): Promise<void> {
   });
 }
 
+// -- Test: run handlers locally --
+
+function indentJson(value: unknown): string {
+  return JSON.stringify(value, null, 2)
+    .split("\n")
+    .map((line) => `      ${line}`)
+    .join("\n");
+}
+
+function printTestRun(run: TestRun): void {
+  output.heading(`Test: ${run.offering}`);
+  for (const step of run.steps) {
+    const label = step.name.padEnd(24);
+    if (step.status === "skipped") {
+      output.log(`  ${output.colors.dim(`- ${label} skipped (${step.error})`)}`);
+      continue;
+    }
+    const mark = step.status === "passed" ? output.colors.green("✓") : output.colors.red("✗");
+    output.log(`  ${mark} ${label} ${output.colors.dim(`${step.durationMs}ms`)}`);
+    if (step.error) output.log(`      ${output.colors.red(step.error)}`);
+    if (step.output !== undefined && step.name !== "executeJob") {
+      output.log(indentJson(step.output));
+    }
+  }
+  if (run.progress.length > 0) {
+    output.log("\n  Progress:");
+    for (const p of run.progress) {
+      output.log(
+        `      ${p.percent !== undefined ? `${String(p.percent).padStart(3)}%  ` : ""}${p.message}`
+      );
+    }
+  }
+  if (run.deliverable !== undefined) {
+    output.log("\n  Deliverable:");
+    output.log(indentJson(run.deliverable));
+  }
+  if (run.attachments?.length) {
+    output.log("\n  Attachments:");
+    for (const a of run.attachments) {
+      const what = a.url ?? `${a.content?.length ?? 0} chars inline`;
+      output.log(
+        `      ${a.name ?? "(unnamed)"}  ${output.colors.dim(`${a.media ?? "object"}, ${what}`)}`
+      );
+    }
+  }
+  output.log(
+    `\n  ${run.passed ? output.colors.green("PASSED") : output.colors.red("FAILED")}` +
+      `  ${output.colors.dim(`(${run.durationMs}ms)`)}\n`
+  );
+}
+
+function printFixtureResults(results: FixtureResult[]): void {
+  output.heading("Offering Fixtures");
+  let current: string | undefined;
+  for (const r of results) {
+    if (r.offering !== current) {
+      current = r.offering;
+      output.log(`\n  ${output.colors.bold(r.offering)}`);
+    }
+    const mark = r.passed ? output.colors.green("✓") : output.colors.red("✗");
+    output.log(`    ${mark} ${r.fixture.padEnd(32)} ${output.colors.dim(`${r.durationMs}ms`)}`);
+    for (const failure of r.failures) output.log(`        ${output.colors.red(failure)}`);
+    if (r.recordedTo) output.log(`        ${output.colors.dim(`recorded → ${r.recordedTo}`)}`);
+  }
+  const failed = results.filter((r) => !r.passed).length;
+  const summary = `${results.length - failed} passed, ${failed} failed`;
+  output.log(`\n  ${failed > 0 ? output.colors.red(summary) : output.colors.green(summary)}\n`);
+}
+
+async function loadOrFail(offeringName: string, agentDirName: string): Promise<LoadedOffering> {
+  try {
+    return await loadOffering(offeringName, agentDirName);
+  } catch (err) {
+    output.fatal(`Failed to load offering: ${err instanceof Error ? err.message : String(err)}`);
+  }
+}
+
+export async function test(
+  offeringName: string | undefined,
+  opts: { requirements?: Record<string, any>; all?: boolean; record?: boolean } = {}
+): Promise<void> {
+  if (!offeringName && !opts.all) {
+    output.fatal(
+      "Usage: acp sell test <offering_name> --requirements '<json>' | acp sell test --all"
+    );
+  }
+
+  const agent = getActiveAgent();
+  if (!agent) {
+    output.fatal("No active agent. Run `acp setup` first.");
+  }
+  const agentDirName = sanitizeAgentName(agent.name);
+
+  if (opts.all) {
+    return testFixtures(offeringName, agentDirName, agent.walletAddress, opts.record === true);
+  }
+
+  const offering = await loadOrFail(offeringName!, agentDirName);
+  const run = await output.withLogsOnStderr(() =>
+    runOfferingTest({
+      offering,
+      requirements: opts.requirements ?? {},
+      agentDirName,
+      walletAddress: agent.walletAddress,
+    })
+  );
+
+  output.output(run, printTestRun);
+  if (!run.passed) process.exit(1);
+}
+
+/** Run the fixtures of one offering (or of every offering) with recorded HTTP. */
+async function testFixtures(
+  offeringName: string | undefined,
+  agentDirName: string,
+  walletAddress: string,
+  record: boolean
+): Promise<void> {
+  const names = offeringName ? [offeringName] : listLocalOfferings().map((o) => o.dirName);
+  const results: FixtureResult[] = [];
+
+  for (const name of names) {
+    const offeringDir = resolveOfferingDir(name);
+    const fixtures = listFixtures(offeringDir);
+    if (fixtures.length === 0) continue;
+
+    const offering = await loadOrFail(name, agentDirName);
+    for (const fixture of fixtures) {
+      results.push(
+        await output.withLogsOnStderr(() =>
+          runFixture({
+            offering,
+            offeringDir,
+            fixture,
+            agentDirName,
+            walletAddress,
+            mode: record ? "record" : "replay",
+          })
+        )
+      );
+    }
+  }
+
+  if (results.length === 0) {
+    output.output({ results }, () => {
+      output.warn(
+        `No fixtures found. Add ${offeringName ?? "<offering>"}/fixtures/<case>.json to an offering.`
+      );
+    });
+    return;
+  }
+
+  output.output({ results }, (data) => printFixtureResults(data.results));
+  if (results.some((r) => !r.passed)) process.exit(1);
+}
+
 // =============================================================================
 // Resource Management
 // =============================================================================
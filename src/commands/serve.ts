@@ -1,7 +1,9 @@
 // =============================================================================
-// acp serve start   — Start seller runtime (daemonized)
-// acp serve stop    — Stop seller runtime
-// acp serve status  — Show runtime process info
+// acp serve start          — Start seller runtime (daemonized)
+// acp serve stop           — Stop seller runtime
+// acp serve status         — Show runtime process info
+// acp serve failed         — List dead-lettered calls and handler failures
+// acp serve retry <jobId>  — Replay a job's failed calls
 // =============================================================================
 
 import { spawn } from "child_process";
@@ -11,6 +13,38 @@ import { fileURLToPath } from "url";
 import * as output from "../lib/output.js";
 import { getMyAgentInfo } from "../lib/wallet.js";
 import { checkForLegacyOfferings } from "./sell.js";
+import { readRuntimeStatus } from "../seller/runtime/runtimeStatus.js";
+import type { ConnectionState } from "../seller/runtime/acpSocket.js";
+import {
+  findDeadLetters,
+  listDeadLetters,
+  removeDeadLetter,
+  type DeadLetterEntry,
+} from "../seller/runtime/deadLetter.js";
+import { deliverJob, fetchJob, replayDeadLetter } from "../seller/runtime/sellerApi.js";
+import { bundleAttachments } from "../seller/runtime/attachments.js";
+import {
+  artifactConfigFromEnv,
+  offloadDeliverable,
+  setArtifactStore,
+} from "../seller/runtime/artifactStore.js";
+import { findStep, hasStep, recordStep, type JournalStep } from "../seller/runtime/jobJournal.js";
+import { loadOffering } from "../seller/runtime/offerings.js";
+import { runExecuteJob } from "../seller/runtime/execution.js";
+import { createHandlerContext } from "../seller/runtime/handlerContext.js";
+import { toJobEvent } from "../seller/runtime/reconcile.js";
+import { confirmAdditionalFunds } from "../seller/runtime/jobHandler.js";
+import {
+  formatLogLine,
+  matchesLogQuery,
+  parseLogLevel,
+  parseLogLine,
+  readLogEntries,
+  LOG_LEVELS,
+  SELLER_LOG_PATH,
+  type LogEntry,
+  type LogQuery,
+} from "../seller/runtime/logger.js";
 import {
   findSellerPid,
   isProcessRunning,
@@ -19,6 +53,7 @@ import {
   sanitizeAgentName,
   ROOT,
   LOGS_DIR,
+  type AgentEntry,
 } from "../lib/config.js";
 
 const __filename = fileURLToPath(import.meta.url);
@@ -26,7 +61,8 @@ const __dirname = path.dirname(__filename);
 
 // -- Start --
 
-const SELLER_LOG_PATH = path.resolve(LOGS_DIR, "seller.log");
+/** Raw stdout/stderr of the seller process (output from before logging starts, crashes). */
+const SELLER_OUTPUT_PATH = path.resolve(LOGS_DIR, "seller.out");
 
 function getOfferingsRoot(): string {
   const agent = getActiveAgent();
@@ -86,12 +122,14 @@ export async function start(): Promise<void> {
       : path.resolve(ROOT, "node_modules", ".bin", "tsx");
 
   ensureLogsDir();
-  const logFd = fs.openSync(SELLER_LOG_PATH, "a");
+  const logFd = fs.openSync(SELLER_OUTPUT_PATH, "a");
 
+  // The seller writes its structured log itself; only stray output goes to seller.out
   const sellerProcess = spawn(tsxBin, [sellerScript], {
     detached: true,
     stdio: ["ignore", logFd, logFd],
     cwd: ROOT,
+    env: { ...process.env, ACP_SELLER_LOG_CONSOLE: "off" },
   });
 
   if (!sellerProcess.pid) {
@@ -113,6 +151,10 @@ export async function start(): Promise<void> {
 
 // -- Stop --
 
+const STOP_POLL_MS = 250;
+/** Time allowed on top of the seller's grace period for it to react to SIGTERM and exit. */
+const STOP_MARGIN_MS = 5000;
+
 export async function stop(): Promise<void> {
   const pid = findSellerPid();
 
@@ -129,44 +171,332 @@ export async function stop(): Promise<void> {
     output.fatal(`Failed to send SIGTERM to PID ${pid}: ${err.message}`);
   }
 
-  // Wait and verify
+  // The seller lets running jobs finish before it exits; wait for as long as it says it will
+  const shutdownOf = () => {
+    const runtime = readRuntimeStatus();
+    return runtime?.pid === pid ? runtime.shutdown : undefined;
+  };
+  const started = Date.now();
   let stopped = false;
-  for (let i = 0; i < 10; i++) {
-    const start = Date.now();
-    while (Date.now() - start < 200) {
-      /* busy wait 200ms */
-    }
+  let announced = false;
+  for (;;) {
+    await new Promise((resolve) => setTimeout(resolve, STOP_POLL_MS));
     if (!isProcessRunning(pid)) {
       stopped = true;
       break;
     }
+    const shutdown = shutdownOf();
+    if (shutdown && shutdown.inFlight > 0 && !announced) {
+      output.log(
+        `  Waiting for ${shutdown.inFlight} running job(s) to finish (up to ${Math.round(shutdown.graceMs / 1000)}s)...`
+      );
+      announced = true;
+    }
+    if (Date.now() - started > (shutdown?.graceMs ?? 0) + STOP_MARGIN_MS) break;
   }
 
-  if (stopped) {
-    removePidFromConfig();
-    output.output({ pid, status: "stopped" }, () => {
-      output.log(`  Seller process (PID ${pid}) stopped.\n`);
-    });
-  } else {
-    output.error(`Process (PID ${pid}) did not stop within 2 seconds. Try: kill -9 ${pid}`);
+  if (!stopped) {
+    output.error(`Process (PID ${pid}) did not stop. Try: kill -9 ${pid}`);
+    return;
   }
+
+  removePidFromConfig();
+  const shutdown = shutdownOf();
+  const drained = shutdown?.drained ?? 0;
+  const abandoned = shutdown?.abandoned ?? [];
+  output.output({ pid, status: "stopped", drained, abandoned }, () => {
+    output.log(`  Seller process (PID ${pid}) stopped — ${drained} running job(s) drained.`);
+    if (abandoned.length > 0) {
+      output.warn(
+        `${abandoned.length} job(s) were still running when the grace period ran out ` +
+          `(${abandoned.join(", ")}). They resume on the next \`acp serve start\`.`
+      );
+    }
+    output.log("");
+  });
 }
 
 // -- Status --
 
+/** "3m 12s ago" */
+function ago(iso: string): string {
+  const s = Math.max(0, Math.round((Date.now() - Date.parse(iso)) / 1000));
+  if (s < 60) return `${s}s ago`;
+  if (s < 3600) return `${Math.floor(s / 60)}m ${s % 60}s ago`;
+  if (s < 86400) return `${Math.floor(s / 3600)}h ${Math.floor((s % 3600) / 60)}m ago`;
+  return `${Math.floor(s / 86400)}d ${Math.floor((s % 86400) / 3600)}h ago`;
+}
+
+function printConnection(c: ConnectionState): void {
+  if (c.status === "connected") {
+    output.field(
+      "Connection",
+      `Connected since ${c.connectedSince} (${ago(c.connectedSince!)})` +
+        (c.roomJoined ? "" : " — waiting for roomJoined")
+    );
+  } else {
+    const label = { connecting: "Connecting", disconnected: "Disconnected", closed: "Closed" }[
+      c.status
+    ];
+    const since = c.disconnectedSince
+      ? ` since ${c.disconnectedSince} (${ago(c.disconnectedSince)})`
+      : "";
+    const why = c.disconnectReason ?? c.lastError;
+    output.field("Connection", `${label}${since}${why ? ` — ${why}` : ""}`);
+  }
+  if (c.reconnects > 0) output.field("Reconnects", c.reconnects);
+  output.field(
+    "Last event",
+    c.lastEvent
+      ? `${c.lastEvent.name}${c.lastEvent.jobId !== undefined ? ` (job ${c.lastEvent.jobId})` : ""} ` +
+          `at ${c.lastEvent.at} (${ago(c.lastEvent.at)})`
+      : "none yet"
+  );
+  if (c.lastHeartbeatAt) output.field("Last heartbeat", ago(c.lastHeartbeatAt));
+}
+
 export async function status(): Promise<void> {
   const pid = findSellerPid();
   const running = pid !== undefined;
+  const runtime = running ? readRuntimeStatus() : undefined;
+  const scheduler = runtime?.pid === pid ? runtime?.scheduler : undefined;
+  const shutdown = runtime?.pid === pid ? runtime?.shutdown : undefined;
+  const connection = runtime?.pid === pid ? runtime?.connection : undefined;
+
+  output.output(
+    {
+      running,
+      pid: pid ?? null,
+      scheduler: scheduler ?? null,
+      connection: connection ?? null,
+      shutdown: shutdown ?? null,
+    },
+    () => {
+      output.heading("Seller Runtime");
+      if (running && shutdown) {
+        output.field("Status", `Stopping (draining ${shutdown.inFlight} job(s))`);
+        output.field("PID", pid!);
+      } else if (running) {
+        output.field("Status", "Running");
+        output.field("PID", pid!);
+      } else {
+        output.field("Status", "Not running");
+      }
+      if (connection) printConnection(connection);
+      if (scheduler) {
+        output.field("In flight", `${scheduler.running} / ${scheduler.globalConcurrency}`);
+        output.field("Queued", `${scheduler.queued} / ${scheduler.maxQueued}`);
+        for (const [name, o] of Object.entries(scheduler.offerings)) {
+          output.field(`  ${name}`, `${o.running} running, ${o.queued} queued (limit ${o.limit})`);
+        }
+      }
+      output.log("\n  Run `acp sell list` to see offerings.\n");
+    }
+  );
+}
 
-  output.output({ running, pid: pid ?? null }, () => {
-    output.heading("Seller Runtime");
-    if (running) {
-      output.field("Status", "Running");
-      output.field("PID", pid!);
-    } else {
-      output.field("Status", "Not running");
+// -- Failed jobs (dead-letter store) --
+
+function summarize(value: unknown, max = 120): string {
+  const str = typeof value === "string" ? value : JSON.stringify(value);
+  return str.length > max ? `${str.slice(0, max)}…` : str;
+}
+
+export async function failed(): Promise<void> {
+  const entries = listDeadLetters();
+
+  output.output(entries, (list: DeadLetterEntry[]) => {
+    output.heading("Failed Jobs");
+    if (list.length === 0) {
+      output.log("  No failed jobs.\n");
+      return;
+    }
+    for (const e of list) {
+      output.log(`\n  Job ${e.jobId}`);
+      output.field("    Step", e.action);
+      output.field("    Offering", e.offering);
+      output.field("    Error", e.error);
+      output.field("    Attempts", e.attempts);
+      output.field("    Failed at", e.failedAt);
+      if (e.requirements) output.field("    Requirements", summarize(e.requirements));
+      if (e.deliverable !== undefined) output.field("    Deliverable", summarize(e.deliverable));
+      if (e.action === "refund") {
+        output.field(
+          "    Owed",
+          `${e.params.amount} of token ${e.params.tokenAddress} to ${e.params.recipient}`
+        );
+      }
+    }
+    output.log("\n  Run `acp serve retry <jobId>` to replay a job's failed calls.");
+    if (list.some((e) => e.action === "refund")) {
+      output.log("  Return refunds by hand, then run `acp serve retry <jobId> --refunded`.");
+    }
+    output.log("");
+  });
+}
+
+/** Journal step recorded once a replayed call goes through (for "execute": the delivery). */
+function stepForEntry(entry: DeadLetterEntry): JournalStep {
+  if (entry.action === "accept") return entry.params.accept ? "accepted" : "rejected";
+  if (entry.action === "requestPayment") return "payment_requested";
+  if (entry.action === "reject") return "rejected";
+  return "delivered";
+}
+
+function requireActiveAgent(): AgentEntry {
+  const agent = getActiveAgent();
+  if (!agent) output.fatal("No active agent. Run `acp setup` first.");
+  return agent;
+}
+
+/**
+ * Re-run a failed handler and deliver its result. Only done on request
+ * (`--execute`), since it repeats the job's work.
+ */
+async function reexecute(entry: DeadLetterEntry): Promise<void> {
+  if (!entry.offering) {
+    throw new Error(`Entry ${entry.id} has no offering recorded — cannot re-run the handler`);
+  }
+  const meta = { offering: entry.offering, requirements: entry.requirements ?? {} };
+  const agent = requireActiveAgent();
+  const agentDirName = sanitizeAgentName(agent.name);
+  const raw = await fetchJob(entry.jobId);
+  const job = raw ? toJobEvent(raw) : undefined;
+  if (!job) {
+    throw new Error(`Job ${entry.jobId} could not be fetched from ACP`);
+  }
+  // Same funds check as the runtime: the execute entry may predate it, or the funds never came
+  const seller = { agentDirName, walletAddress: agent.walletAddress };
+  if (!(await confirmAdditionalFunds(job, meta, seller))) {
+    const rejected = findStep(entry.jobId, "rejected");
+    if (rejected) removeDeadLetter(entry.id);
+    throw new Error(
+      rejected
+        ? `additional funds not confirmed, so the job was rejected instead: ${rejected.data?.reason}`
+        : "additional funds could not be confirmed — the handler was not re-run"
+    );
+  }
+  const offering = await loadOffering(entry.offering, agentDirName);
+  const ctx = createHandlerContext({
+    job,
+    offering: entry.offering,
+    agentDirName,
+    walletAddress: agent.walletAddress,
+  });
+  const result = await runExecuteJob(offering, meta.requirements, ctx);
+  recordStep(entry.jobId, "executed", {
+    offering: entry.offering,
+    data: {
+      deliverable: result.deliverable,
+      payableDetail: result.payableDetail,
+      attachments: result.attachments,
+    },
+  });
+  // Remove first: if delivery fails, deliverJob dead-letters the result itself
+  removeDeadLetter(entry.id);
+  // Same artifact store as the seller, when run with the seller's environment
+  setArtifactStore(
+    artifactConfigFromEnv(Number(process.env.PORT ?? process.env.ACP_SELLER_METRICS_PORT) || 0)
+  );
+  const { deliverable } = await offloadDeliverable(entry.jobId, bundleAttachments(result));
+  await deliverJob(entry.jobId, { deliverable, payableDetail: result.payableDetail }, meta);
+  recordStep(entry.jobId, "delivered", { offering: entry.offering });
+}
+
+export async function retry(
+  jobIdArg: string,
+  opts: { execute?: boolean; refunded?: boolean } = {}
+): Promise<void> {
+  const jobId = Number(jobIdArg);
+  if (!jobIdArg || !Number.isInteger(jobId)) {
+    output.fatal("Usage: acp serve retry <jobId> [--execute] [--refunded]");
+  }
+
+  const entries = findDeadLetters(jobId);
+  if (entries.length === 0) {
+    output.fatal(
+      `No failed calls recorded for job ${jobId}. Run \`acp serve failed\` to list them.`
+    );
+  }
+
+  // Refunds are returned by hand, not replayed; --refunded marks them as done
+  const refunds = entries.filter((e) => e.action === "refund");
+  if (opts.refunded) {
+    for (const entry of refunds) removeDeadLetter(entry.id);
+  }
+  const calls = entries.filter((e) => e.action !== "refund");
+
+  // Older stores can hold several entries per action: replay only the newest
+  const latest = new Map<DeadLetterEntry["action"], DeadLetterEntry>();
+  for (const entry of calls) latest.set(entry.action, entry);
+  for (const entry of calls) {
+    if (latest.get(entry.action) !== entry) removeDeadLetter(entry.id);
+  }
+
+  const needsExecute = [...latest.values()].filter(
+    (e) => e.action === "execute" && !hasStep(jobId, stepForEntry(e))
+  );
+  if (needsExecute.length > 0 && !opts.execute) {
+    output.fatal(
+      `The handler for job ${jobId} failed, so there is no deliverable to replay.\n` +
+        `  Fix the handler, then run \`acp serve retry ${jobId} --execute\` to re-run it and deliver.`
+    );
+  }
+
+  const replayed: { id: string; action: string }[] = [];
+  const skipped: { id: string; action: string; step: JournalStep }[] = [];
+  for (const entry of latest.values()) {
+    // Checked per entry: re-running the handler also delivers, which settles a failed delivery
+    const step = stepForEntry(entry);
+    if (hasStep(jobId, step)) {
+      removeDeadLetter(entry.id);
+      skipped.push({ id: entry.id, action: entry.action, step });
+      continue;
+    }
+    try {
+      if (entry.action === "execute") {
+        await reexecute(entry);
+      } else {
+        await replayDeadLetter(entry.id);
+        recordStep(jobId, step, {
+          offering: entry.offering,
+          data: entry.action === "deliver" ? undefined : entry.params,
+        });
+      }
+      replayed.push({ id: entry.id, action: entry.action });
+    } catch (err) {
+      output.fatal(
+        `Retry of ${entry.action} for job ${jobId} failed: ${err instanceof Error ? err.message : String(err)}`
+      );
+    }
+  }
+
+  const owed = refunds.map((e) => ({
+    id: e.id,
+    recipient: String(e.params.recipient),
+    amount: Number(e.params.amount),
+    tokenAddress: String(e.params.tokenAddress),
+    returned: !!opts.refunded,
+  }));
+  output.output({ jobId, replayed, skipped, refunds: owed }, () => {
+    output.heading(`Job ${jobId}`);
+    for (const r of replayed) {
+      output.success(`Replayed ${r.action}`);
+    }
+    for (const r of skipped) {
+      output.log(`  Skipped ${r.action} — already ${r.step.replace("_", " ")} (journal)`);
+    }
+    for (const r of owed) {
+      const what = `${r.amount} of token ${r.tokenAddress} to ${r.recipient}`;
+      if (r.returned) {
+        output.success(`Refund of ${what} marked as returned`);
+      } else {
+        output.log(
+          `  Refund owed: ${what} — return it, then run \`acp serve retry ${jobId} --refunded\``
+        );
+      }
     }
-    output.log("\n  Run `acp sell list` to see offerings.\n");
+    output.log("");
   });
 }
 
@@ -176,65 +506,129 @@ export interface LogFilter {
   offering?: string;
   job?: string;
   level?: string;
+  since?: string;
+  until?: string;
 }
 
-function hasActiveFilter(filter: LogFilter): boolean {
-  return !!(filter.offering || filter.job || filter.level);
+const LOG_TAIL_ENTRIES = 50;
+const LOG_FOLLOW_POLL_MS = 500;
+
+const DURATION_UNITS_MS: Record<string, number> = {
+  s: 1000,
+  m: 60_000,
+  h: 3_600_000,
+  d: 86_400_000,
+};
+
+/** A duration before now ("15m", "2h", "1d") or a date/time ("2025-01-31T12:00"). */
+function parseTimeFlag(flag: string, value: string): Date {
+  const relative = /^(\d+)([smhd])$/.exec(value.trim());
+  if (relative) {
+    return new Date(Date.now() - Number(relative[1]) * DURATION_UNITS_MS[relative[2]]);
+  }
+  const time = Date.parse(value);
+  if (Number.isNaN(time)) {
+    output.fatal(
+      `Invalid ${flag} "${value}". Use a duration (e.g. 15m, 2h, 1d) or a date/time (e.g. 2025-01-31T12:00).`
+    );
+  }
+  return new Date(time);
 }
 
-function matchesFilter(line: string, filter: LogFilter): boolean {
-  const lower = line.toLowerCase();
-  if (filter.offering && !lower.includes(filter.offering.toLowerCase())) return false;
-  if (filter.job && !line.includes(filter.job)) return false;
-  if (filter.level && !lower.includes(filter.level.toLowerCase())) return false;
-  return true;
+/** Turn `--offering/--job/--level/--since/--until` into a log query (exits on invalid values). */
+export function logQueryFromFlags(filter: LogFilter): LogQuery {
+  const query: LogQuery = {};
+  if (filter.offering) query.offering = filter.offering;
+  if (filter.job) {
+    const jobId = Number(filter.job);
+    if (!Number.isInteger(jobId)) output.fatal(`Invalid --job "${filter.job}": expected a job ID.`);
+    query.jobId = jobId;
+  }
+  if (filter.level) {
+    const level = parseLogLevel(filter.level);
+    if (!level) {
+      output.fatal(`Invalid --level "${filter.level}". Use one of: ${LOG_LEVELS.join(", ")}.`);
+    }
+    query.level = level;
+  }
+  if (filter.since) query.since = parseTimeFlag("--since", filter.since);
+  if (filter.until) query.until = parseTimeFlag("--until", filter.until);
+  return query;
 }
 
-export async function logs(follow: boolean = false, filter: LogFilter = {}): Promise<void> {
-  if (!fs.existsSync(SELLER_LOG_PATH)) {
-    output.log("  No log file found. Start the seller first: `acp serve start`\n");
+/** Print an entry: the JSON line as written with --json, otherwise formatted and colored by level. */
+export function printLogEntry(entry: LogEntry): void {
+  if (output.isJsonMode()) {
+    console.log(JSON.stringify(entry));
     return;
   }
+  const line = formatLogLine(entry);
+  const { colors } = output;
+  const colored =
+    entry.level === "error"
+      ? colors.red(line)
+      : entry.level === "warn"
+        ? colors.yellow(line)
+        : entry.level === "debug"
+          ? colors.dim(line)
+          : line;
+  console.log(colored);
+}
 
-  const active = hasActiveFilter(filter);
+/** Print entries appended to the log from now on, following rotation, until Ctrl+C. */
+async function followLog(query: LogQuery): Promise<void> {
+  let ino = fs.existsSync(SELLER_LOG_PATH) ? fs.statSync(SELLER_LOG_PATH).ino : undefined;
+  let position = ino !== undefined ? fs.statSync(SELLER_LOG_PATH).size : 0;
+  let buffer = "";
+
+  const poll = () => {
+    if (!fs.existsSync(SELLER_LOG_PATH)) return;
+    const stat = fs.statSync(SELLER_LOG_PATH);
+    // Rotated (new file) or truncated: start over at the top of the new file
+    if (stat.ino !== ino || stat.size < position) {
+      ino = stat.ino;
+      position = 0;
+      buffer = "";
+    }
+    if (stat.size === position) return;
+
+    const fd = fs.openSync(SELLER_LOG_PATH, "r");
+    const chunk = Buffer.alloc(stat.size - position);
+    fs.readSync(fd, chunk, 0, chunk.length, position);
+    fs.closeSync(fd);
+    position = stat.size;
+
+    const lines = (buffer + chunk.toString("utf-8")).split("\n");
+    buffer = lines.pop()!;
+    for (const line of lines) {
+      const entry = parseLogLine(line);
+      if (entry && matchesLogQuery(entry, query)) printLogEntry(entry);
+    }
+  };
 
-  if (follow) {
-    const tail = spawn("tail", ["-f", SELLER_LOG_PATH], {
-      stdio: active ? ["ignore", "pipe", "pipe"] : "inherit",
+  const timer = setInterval(poll, LOG_FOLLOW_POLL_MS);
+  await new Promise<void>((resolve) => {
+    process.on("SIGINT", () => {
+      clearInterval(timer);
+      resolve();
     });
+  });
+}
 
-    if (active && tail.stdout) {
-      let buffer = "";
-      tail.stdout.on("data", (chunk: Buffer) => {
-        buffer += chunk.toString();
-        const lines = buffer.split("\n");
-        buffer = lines.pop()!;
-        for (const line of lines) {
-          if (matchesFilter(line, filter)) {
-            process.stdout.write(line + "\n");
-          }
-        }
-      });
-    }
+export async function logs(follow: boolean = false, filter: LogFilter = {}): Promise<void> {
+  const query = logQueryFromFlags(filter);
+  const entries = readLogEntries(query, LOG_TAIL_ENTRIES);
 
-    // Keep running until user hits Ctrl+C
-    await new Promise<void>((resolve) => {
-      tail.on("close", () => resolve());
-      process.on("SIGINT", () => {
-        tail.kill();
-        resolve();
-      });
-    });
-  } else {
-    // Show the last 50 lines (or last 50 matching lines if filtered)
-    const content = fs.readFileSync(SELLER_LOG_PATH, "utf-8");
-    const lines = content.split("\n");
-    const filtered = active ? lines.filter((l: string) => matchesFilter(l, filter)) : lines;
-    const last50 = filtered.slice(-51).join("\n"); // -51 because trailing newline
-    if (last50.trim()) {
-      output.log(last50);
-    } else {
-      output.log(active ? "  No log lines matched the filter.\n" : "  Log file is empty.\n");
-    }
+  if (!follow && !fs.existsSync(SELLER_LOG_PATH)) {
+    output.log("  No log file found. Start the seller first: `acp serve start`\n");
+    return;
+  }
+
+  for (const entry of entries) printLogEntry(entry);
+  if (follow) {
+    await followLog(query);
+  } else if (entries.length === 0) {
+    const filtered = Object.values(query).some((v) => v !== undefined);
+    output.log(filtered ? "  No log entries matched the filter.\n" : "  Log file is empty.\n");
   }
 }
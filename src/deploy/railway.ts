@@ -11,6 +11,13 @@ import * as path from "path";
 import * as os from "os";
 import { ROOT } from "../lib/config.js";
 import type { RailwayProjectConfig } from "../lib/config.js";
+import { isJsonMode } from "../lib/output.js";
+import {
+  formatLogLine,
+  matchesLogQuery,
+  parseLogLine,
+  type LogQuery,
+} from "../seller/runtime/logger.js";
 
 const EXEC_OPTS = { cwd: ROOT, encoding: "utf-8" as const };
 const RAILWAY_GLOBAL_CONFIG = path.resolve(os.homedir(), ".railway", "config.json");
@@ -176,6 +183,22 @@ export function listVariables(): string {
 
 // -- Deployment --
 
+/**
+ * railway.json (config as code): Railway waits for the seller's /healthz to
+ * return 200 — i.e. for it to connect to the ACP socket — before switching
+ * traffic to a new deployment. The seller serves it on the PORT Railway injects.
+ */
+export function generateRailwayConfig(): string {
+  const config = {
+    $schema: "https://railway.com/railway.schema.json",
+    deploy: {
+      healthcheckPath: "/healthz",
+      healthcheckTimeout: 120,
+    },
+  };
+  return JSON.stringify(config, null, 2) + "\n";
+}
+
 export function up(): void {
   execSync("railway up --detach", { ...EXEC_OPTS, stdio: "inherit" });
 }
@@ -189,47 +212,36 @@ export function getStatus(): string {
 
 // -- Log filtering --
 
-export interface LogFilter {
-  offering?: string;
-  job?: string;
-  level?: string;
-}
-
-function hasActiveFilter(filter: LogFilter): boolean {
-  return !!(filter.offering || filter.job || filter.level);
-}
-
-function matchesFilter(line: string, filter: LogFilter): boolean {
-  const lower = line.toLowerCase();
-  if (filter.offering && !lower.includes(filter.offering.toLowerCase())) return false;
-  if (filter.job && !line.includes(filter.job)) return false;
-  if (filter.level && !lower.includes(filter.level.toLowerCase())) return false;
-  return true;
+/**
+ * The deployed seller writes its log as JSON lines (see seller/runtime/logger.ts).
+ * Those are filtered on their fields and printed like `acp serve logs`; other
+ * lines (build and platform output) are only shown when no filter is set.
+ */
+function printLogLine(line: string, query: LogQuery): void {
+  const entry = parseLogLine(line);
+  if (!entry) {
+    if (Object.values(query).every((v) => v === undefined)) process.stdout.write(line + "\n");
+    return;
+  }
+  if (!matchesLogQuery(entry, query)) return;
+  process.stdout.write((isJsonMode() ? JSON.stringify(entry) : formatLogLine(entry)) + "\n");
 }
 
-export function streamLogs(follow: boolean, filter: LogFilter = {}): void {
-  const active = hasActiveFilter(filter);
-
+export function streamLogs(follow: boolean, query: LogQuery = {}): void {
   // Railway v4: `railway logs` streams by default.
   // Use `--lines N` to fetch historical (non-streaming) logs.
   if (follow) {
     const child = spawn("railway", ["logs"], {
       cwd: ROOT,
-      stdio: active ? ["ignore", "pipe", "pipe"] : "inherit",
+      stdio: ["ignore", "pipe", "inherit"],
+    });
+    let buffer = "";
+    child.stdout!.on("data", (chunk: Buffer) => {
+      buffer += chunk.toString();
+      const lines = buffer.split("\n");
+      buffer = lines.pop()!;
+      for (const line of lines) printLogLine(line, query);
     });
-    if (active && child.stdout) {
-      let buffer = "";
-      child.stdout.on("data", (chunk: Buffer) => {
-        buffer += chunk.toString();
-        const lines = buffer.split("\n");
-        buffer = lines.pop()!;
-        for (const line of lines) {
-          if (matchesFilter(line, filter)) {
-            process.stdout.write(line + "\n");
-          }
-        }
-      });
-    }
     process.on("SIGINT", () => {
       child.kill();
     });
@@ -237,19 +249,12 @@ export function streamLogs(follow: boolean, filter: LogFilter = {}): void {
     child.unref();
     child.ref();
   } else {
-    if (active) {
-      const raw = execSync("railway logs --lines 50", {
-        ...EXEC_OPTS,
-        stdio: ["pipe", "pipe", "pipe"],
-      });
-      const lines = raw.split("\n");
-      for (const line of lines) {
-        if (matchesFilter(line, filter)) {
-          process.stdout.write(line + "\n");
-        }
-      }
-    } else {
-      execSync("railway logs --lines 50", { ...EXEC_OPTS, stdio: "inherit" });
+    const raw = execSync("railway logs --lines 50", {
+      ...EXEC_OPTS,
+      stdio: ["pipe", "pipe", "pipe"],
+    });
+    for (const line of raw.split("\n")) {
+      if (line) printLogLine(line, query);
     }
   }
 }
@@ -11,6 +11,20 @@ dotenv.config();
 // Ensure API key is loaded from config
 loadApiKey();
 
+/** Error for a non-2xx ACP API response. The message is the JSON response body. */
+export class AcpApiError extends Error {
+  readonly status: number;
+  /** Response body, as parsed by axios. */
+  readonly body: unknown;
+
+  constructor(status: number, body: unknown) {
+    super(JSON.stringify(body));
+    this.name = "AcpApiError";
+    this.status = status;
+    this.body = body;
+  }
+}
+
 const client = axios.create({
   baseURL: process.env.ACP_API_URL || "https://claw-api.virtuals.io",
   headers: {
@@ -22,7 +36,7 @@ client.interceptors.response.use(
   (response) => response,
   (error) => {
     if (error.response) {
-      throw new Error(JSON.stringify(error.response.data));
+      throw new AcpApiError(error.response.status, error.response.data);
     }
     throw error;
   }
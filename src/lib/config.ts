@@ -36,6 +36,12 @@ export interface DeployInfo {
   railwayConfig: RailwayProjectConfig;
 }
 
+export interface RetryConfig {
+  maxAttempts?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+}
+
 export interface ConfigJson {
   SESSION_TOKEN?: {
     token: string;
@@ -45,6 +51,7 @@ export interface ConfigJson {
   OPENCLAW_BOUNTY_CRON_JOB_ID?: string;
   agents?: AgentEntry[];
   DEPLOYS?: Record<string, DeployInfo>; // keyed by agent ID
+  SELLER_RETRY?: RetryConfig; // seller API retry policy (env vars take precedence)
 }
 
 export function readConfig(): ConfigJson {
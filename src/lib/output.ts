@@ -87,6 +87,20 @@ export function output(data: unknown, humanFormatter: (data: any) => void): void
   }
 }
 
+/**
+ * Run `fn` with console.log sent to stderr in JSON mode, so logs from code
+ * that prints as it runs (e.g. offering handlers) do not corrupt the JSON.
+ */
+export async function withLogsOnStderr<T>(fn: () => Promise<T>): Promise<T> {
+  const log = console.log;
+  if (jsonMode) console.log = console.error;
+  try {
+    return await fn();
+  } finally {
+    console.log = log;
+  }
+}
+
 /** Fatal error — print and exit. */
 export function fatal(msg: string): never {
   error(msg);
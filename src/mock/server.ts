@@ -0,0 +1,601 @@
+// =============================================================================
+// Local stand-in for the ACP backend: REST API, bounty API, agent search and
+// the socket.io events the seller runtime listens for.
+//
+// Point the CLI at it with:
+//   ACP_API_URL=<url>  ACP_SOCKET_URL=<url>  ACP_BOUNTY_API_URL=<url>
+//   SEARCH_URL=<url>/api/agents/v5/search
+//
+// Buyers and sellers are told apart by their x-api-key. Paid steps happen
+// automatically: once the seller requests payment the job moves to TRANSACTION
+// (unless `autoPay` is off — then POST /mock/jobs/:id/pay).
+//
+// Mock-only endpoints for scripts and CI:
+//   GET  /mock/state          — dump agents, jobs and bounties
+//   POST /mock/jobs           — create a job from a synthetic buyer (body as for
+//                               POST /acp/jobs; provider defaults to the first agent)
+//   POST /mock/jobs/:id/pay   — pay for a job waiting on payment (body `{ amount }`
+//                               transfers that much of the requested funds)
+//   POST /mock/reset          — clear jobs and bounties
+// =============================================================================
+
+import * as http from "http";
+import { Server as SocketServer } from "socket.io";
+import { AcpJobPhase, MemoType, SocketEvent } from "../seller/runtime/types.js";
+import {
+  TERMINAL_PHASES,
+  addMemo,
+  agentForKey,
+  bountyCandidates,
+  createJob,
+  createMockState,
+  findAgentByWallet,
+  newBountyId,
+  type MockAgent,
+  type MockBounty,
+  type MockJob,
+  type MockState,
+} from "./state.js";
+
+export const DEFAULT_MOCK_PORT = 8787;
+
+/** Client wallet used for jobs created through POST /mock/jobs. */
+export const MOCK_BUYER_WALLET = "0x00000000000000000000000000000000000b0b01";
+
+export interface MockServerOptions {
+  port?: number;
+  /** Move jobs to TRANSACTION as soon as payment is requested (default: true). */
+  autoPay?: boolean;
+  /** Register the agents from config.json (default: true). */
+  seedFromConfig?: boolean;
+}
+
+export interface MockServer {
+  url: string;
+  port: number;
+  state: MockState;
+  close: () => Promise<void>;
+}
+
+class HttpError extends Error {
+  readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = "HttpError";
+    this.status = status;
+  }
+}
+
+interface RequestContext {
+  params: Record<string, string>;
+  query: URLSearchParams;
+  body: any;
+  headers: http.IncomingHttpHeaders;
+  /** Agent for the x-api-key header; throws 401 when the header is missing. */
+  agent: () => MockAgent;
+}
+
+type Handler = (ctx: RequestContext) => unknown;
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  keys: string[];
+  handler: Handler;
+}
+
+// -- Serialisation --
+
+function phaseName(phase: AcpJobPhase): string {
+  return AcpJobPhase[phase] ?? String(phase);
+}
+
+/** REST shape: phases by name, like the live API. */
+function toRestJob(job: MockJob) {
+  return {
+    ...job,
+    phase: phaseName(job.phase),
+    memos: job.memos.map((m) => ({ ...m, nextPhase: phaseName(m.nextPhase) })),
+  };
+}
+
+/** Socket shape (AcpJobEventData): numeric phases. */
+function toSocketJob(job: MockJob) {
+  return { ...job, memos: job.memos.map((m) => ({ ...m })) };
+}
+
+function paginate<T>(items: T[], query: URLSearchParams): T[] {
+  const page = Math.max(1, Number(query.get("page")) || 1);
+  const pageSize = Math.max(1, Number(query.get("pageSize")) || 20);
+  return items.slice((page - 1) * pageSize, page * pageSize);
+}
+
+function readBody(req: http.IncomingMessage): Promise<any> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on("data", (c: Buffer) => chunks.push(c));
+    req.on("end", () => {
+      const raw = Buffer.concat(chunks).toString("utf-8");
+      if (!raw) return resolve({});
+      try {
+        resolve(JSON.parse(raw));
+      } catch {
+        reject(new HttpError(400, "Invalid JSON body"));
+      }
+    });
+    req.on("error", reject);
+  });
+}
+
+export async function startMockServer(opts: MockServerOptions = {}): Promise<MockServer> {
+  const autoPay = opts.autoPay !== false;
+  const state = createMockState({ seedFromConfig: opts.seedFromConfig });
+  const routes: Route[] = [];
+
+  const route = (method: string, path: string, handler: Handler) => {
+    const keys: string[] = [];
+    const pattern = new RegExp(
+      "^" +
+        path.replace(/:(\w+)/g, (_, key) => {
+          keys.push(key);
+          return "([^/]+)";
+        }) +
+        "/?$"
+    );
+    routes.push({ method, pattern, keys, handler });
+  };
+
+  const httpServer = http.createServer();
+  const io = new SocketServer(httpServer, { cors: { origin: "*" } });
+
+  // -- Socket --
+
+  io.on("connection", (socket) => {
+    const wallet = String(socket.handshake.auth?.walletAddress ?? "").toLowerCase();
+    if (!wallet) {
+      socket.disconnect(true);
+      return;
+    }
+    socket.join(wallet);
+    console.log(`[mock] Socket connected for ${wallet}`);
+    socket.emit(SocketEvent.ROOM_JOINED, { walletAddress: wallet }, () => {});
+    socket.on("disconnect", () => console.log(`[mock] Socket disconnected for ${wallet}`));
+  });
+
+  const notify = (wallet: string, event: SocketEvent, job: MockJob) => {
+    if (!wallet) return;
+    io.to(wallet.toLowerCase()).emit(event, toSocketJob(job), () => {});
+  };
+
+  // -- Jobs --
+
+  const requireJob = (id: string): MockJob => {
+    const job = state.jobs.get(Number(id));
+    if (!job) throw new HttpError(404, `Job ${id} not found`);
+    return job;
+  };
+
+  const requireProvider = (ctx: RequestContext): MockJob => {
+    const job = requireJob(ctx.params.id);
+    const agent = ctx.agent();
+    if (job.providerAddress.toLowerCase() !== agent.walletAddress.toLowerCase()) {
+      throw new HttpError(403, `Agent ${agent.name} is not the provider of job ${job.id}`);
+    }
+    return job;
+  };
+
+  const requirePhase = (job: MockJob, phase: AcpJobPhase) => {
+    if (job.phase !== phase) {
+      throw new HttpError(
+        400,
+        `Job ${job.id} is in phase ${phaseName(job.phase)}, expected ${phaseName(phase)}`
+      );
+    }
+  };
+
+  /** `strict`: the offering must be registered (as on the live API). */
+  const openJob = (
+    clientAddress: string,
+    body: {
+      providerWalletAddress?: string;
+      evaluatorAddress?: string;
+      jobOfferingName?: string;
+      serviceRequirements?: any;
+    },
+    strict: boolean
+  ): MockJob => {
+    if (!body.providerWalletAddress || !body.jobOfferingName) {
+      throw new HttpError(400, "providerWalletAddress and jobOfferingName are required");
+    }
+    const provider = findAgentByWallet(state, body.providerWalletAddress);
+    const offering = provider?.jobs.find((o) => o.name === body.jobOfferingName);
+    if (strict && provider && !offering) {
+      throw new HttpError(
+        404,
+        `Agent ${provider.name} has no offering named "${body.jobOfferingName}"`
+      );
+    }
+    const job = createJob(state, {
+      clientAddress,
+      providerAddress: provider?.walletAddress ?? body.providerWalletAddress,
+      evaluatorAddress: body.evaluatorAddress,
+      offering,
+      offeringName: body.jobOfferingName,
+      requirements: body.serviceRequirements ?? {},
+    });
+    console.log(`[mock] Job ${job.id} created: "${job.name}" for ${job.providerAddress}`);
+    notify(job.providerAddress, SocketEvent.ON_NEW_TASK, job);
+    return job;
+  };
+
+  /** `amount`: transfer this much of the requested funds instead of all of it. */
+  const pay = (job: MockJob, amount?: number) => {
+    requirePhase(job, AcpJobPhase.NEGOTIATION);
+    const request = [...job.memos].reverse().find((m) => m.nextPhase === AcpJobPhase.TRANSACTION);
+    if (!request) throw new HttpError(400, `Job ${job.id} has no payment request yet`);
+    if (request.payableDetail) {
+      const transfer = { ...request.payableDetail, ...(amount !== undefined ? { amount } : {}) };
+      addMemo(state, job, {
+        memoType: MemoType.PAYABLE_TRANSFER,
+        content: JSON.stringify(transfer),
+        nextPhase: AcpJobPhase.TRANSACTION,
+        payableDetail: transfer,
+      });
+    }
+    job.phase = AcpJobPhase.TRANSACTION;
+    job.memoToSign = undefined;
+    console.log(`[mock] Job ${job.id} paid — now in TRANSACTION`);
+    notify(job.providerAddress, SocketEvent.ON_NEW_TASK, job);
+  };
+
+  route("POST", "/acp/jobs", (ctx) => {
+    const job = openJob(ctx.agent().walletAddress, ctx.body, true);
+    return { data: { jobId: job.id } };
+  });
+
+  const listJobs = (ctx: RequestContext, active: boolean) => {
+    const wallet = ctx.agent().walletAddress.toLowerCase();
+    const jobs = [...state.jobs.values()].filter(
+      (j) =>
+        (j.clientAddress.toLowerCase() === wallet ||
+          j.providerAddress.toLowerCase() === wallet ||
+          j.evaluatorAddress.toLowerCase() === wallet) &&
+        TERMINAL_PHASES.has(j.phase) !== active
+    );
+    return { data: paginate(jobs, ctx.query).map(toRestJob) };
+  };
+  route("GET", "/acp/jobs/active", (ctx) => listJobs(ctx, true));
+  route("GET", "/acp/jobs/completed", (ctx) => listJobs(ctx, false));
+  route("GET", "/acp/jobs/:id", (ctx) => ({ data: toRestJob(requireJob(ctx.params.id)) }));
+
+  route("POST", "/acp/providers/jobs/:id/accept", (ctx) => {
+    const job = requireProvider(ctx);
+    const { accept, reason } = ctx.body;
+    // A paid job can still be rejected (e.g. when the requested funds fell short)
+    if (accept || job.phase !== AcpJobPhase.TRANSACTION) requirePhase(job, AcpJobPhase.REQUEST);
+    job.memos.forEach((m) => {
+      if (m.id === job.memoToSign) m.status = accept ? "APPROVED" : "REJECTED";
+    });
+    addMemo(state, job, {
+      memoType: MemoType.MESSAGE,
+      content: String(reason ?? ""),
+      nextPhase: accept ? AcpJobPhase.NEGOTIATION : AcpJobPhase.REJECTED,
+    });
+    job.phase = accept ? AcpJobPhase.NEGOTIATION : AcpJobPhase.REJECTED;
+    job.memoToSign = undefined;
+    console.log(`[mock] Job ${job.id} ${accept ? "accepted" : `rejected: ${reason}`}`);
+    return { data: { success: true } };
+  });
+
+  route("POST", "/acp/providers/jobs/:id/requirement", (ctx) => {
+    const job = requireProvider(ctx);
+    requirePhase(job, AcpJobPhase.NEGOTIATION);
+    const { content, payableDetail } = ctx.body;
+    addMemo(state, job, {
+      memoType: payableDetail ? MemoType.PAYABLE_REQUEST : MemoType.MESSAGE,
+      content: String(content ?? ""),
+      nextPhase: AcpJobPhase.TRANSACTION,
+      status: "PENDING",
+      ...(payableDetail ? { payableDetail } : {}),
+    });
+    console.log(`[mock] Job ${job.id} payment requested: ${content}`);
+    if (autoPay) {
+      setImmediate(() => {
+        try {
+          pay(job);
+        } catch (err) {
+          console.error(`[mock] Auto-pay for job ${job.id} failed:`, err);
+        }
+      });
+    }
+    return { data: { success: true } };
+  });
+
+  route("POST", "/acp/providers/jobs/:id/deliverable", (ctx) => {
+    const job = requireProvider(ctx);
+    requirePhase(job, AcpJobPhase.TRANSACTION);
+    const { deliverable, payableDetail } = ctx.body;
+    job.deliverable = deliverable;
+    const evaluated = !!job.evaluatorAddress;
+    addMemo(state, job, {
+      memoType: MemoType.OBJECT_URL,
+      content: typeof deliverable === "string" ? deliverable : JSON.stringify(deliverable),
+      nextPhase: evaluated ? AcpJobPhase.EVALUATION : AcpJobPhase.COMPLETED,
+      ...(payableDetail ? { payableDetail } : {}),
+    });
+    job.phase = evaluated ? AcpJobPhase.EVALUATION : AcpJobPhase.COMPLETED;
+    console.log(`[mock] Job ${job.id} delivered — now ${phaseName(job.phase)}`);
+    if (evaluated) notify(job.evaluatorAddress, SocketEvent.ON_EVALUATE, job);
+    return { data: { success: true } };
+  });
+
+  // -- Agent --
+
+  route("GET", "/acp/me", (ctx) => {
+    const { apiKey: _apiKey, ...agent } = ctx.agent();
+    return { data: agent };
+  });
+  route("PUT", "/acp/me", (ctx) => {
+    const agent = ctx.agent();
+    for (const [key, value] of Object.entries(ctx.body ?? {})) {
+      if (key !== "apiKey" && key !== "walletAddress" && key !== "id") agent[key] = value;
+    }
+    const { apiKey: _apiKey, ...rest } = agent;
+    return { data: rest };
+  });
+  route("POST", "/acp/me/tokens", (ctx) => {
+    const agent = ctx.agent();
+    agent.token = { name: String(ctx.body.name ?? ""), symbol: String(ctx.body.symbol ?? "") };
+    agent.tokenAddress = "0x" + "7".repeat(40);
+    return { data: { tokenAddress: agent.tokenAddress, ...agent.token } };
+  });
+  route("GET", "/acp/wallet-balances", () => ({
+    data: [
+      {
+        network: "base",
+        symbol: "USDC",
+        tokenAddress: "0x833589fcd6edb6e08f4c7c32d4f71b54bda02913",
+        tokenBalance: "1000000000",
+        decimals: 6,
+        tokenPrices: [{ currency: "usd", value: "1" }],
+        tokenMetadata: { decimals: 6, name: "USD Coin", symbol: "USDC" },
+      },
+    ],
+  }));
+  route("GET", "/acp/topup", () => ({ data: { url: "http://localhost/mock-topup" } }));
+
+  route("POST", "/acp/job-offerings", (ctx) => {
+    const agent = ctx.agent();
+    const offering = ctx.body?.data;
+    if (!offering?.name) throw new HttpError(400, "data.name is required");
+    agent.jobs = [...agent.jobs.filter((o) => o.name !== offering.name), offering];
+    return { data: agent };
+  });
+  route("DELETE", "/acp/job-offerings/:name", (ctx) => {
+    const agent = ctx.agent();
+    const name = decodeURIComponent(ctx.params.name);
+    if (!agent.jobs.some((o) => o.name === name)) {
+      throw new HttpError(404, `Offering "${name}" not found`);
+    }
+    agent.jobs = agent.jobs.filter((o) => o.name !== name);
+    return { data: { success: true } };
+  });
+  route("POST", "/acp/resources", (ctx) => {
+    const agent = ctx.agent();
+    const resource = ctx.body?.data;
+    if (!resource?.name) throw new HttpError(400, "data.name is required");
+    agent.resources = [...agent.resources.filter((r) => r.name !== resource.name), resource];
+    return { data: agent };
+  });
+  route("DELETE", "/acp/resources/:name", (ctx) => {
+    const agent = ctx.agent();
+    const name = decodeURIComponent(ctx.params.name);
+    agent.resources = agent.resources.filter((r) => r.name !== name);
+    return { data: { success: true } };
+  });
+
+  // -- Search --
+
+  route("GET", "/api/agents/v5/search", (ctx) => {
+    const words = (ctx.query.get("query") ?? "").toLowerCase().split(/\s+/).filter(Boolean);
+    const agents = [...state.agents.values()].filter((a) => {
+      const text = [a.name, a.description, ...a.jobs.map((j) => `${j.name} ${j.description}`)]
+        .join(" ")
+        .toLowerCase();
+      return words.length === 0 || words.some((w) => text.includes(w));
+    });
+    return {
+      data: agents.map(({ apiKey: _apiKey, ...a }) => ({
+        ...a,
+        contractAddress: a.walletAddress,
+        twitterHandle: "",
+        profilePic: "",
+        cluster: null,
+        category: null,
+        symbol: a.token.symbol || null,
+        virtualAgentId: null,
+        isVirtualAgent: false,
+        metrics: {
+          successfulJobCount: 0,
+          successRate: null,
+          uniqueBuyerCount: 0,
+          minsFromLastOnlineTime: 0,
+          isOnline: true,
+        },
+        jobs: a.jobs.map((j, i) => ({ id: i + 1, type: "JOB", price: j.priceV2.value, ...j })),
+      })),
+    };
+  });
+
+  // -- Bounties --
+
+  const requireBounty = (ctx: RequestContext): MockBounty => {
+    const bounty = state.bounties.get(ctx.params.id);
+    if (!bounty) throw new HttpError(404, `Bounty ${ctx.params.id} not found`);
+    if (ctx.body?.poster_secret !== undefined && ctx.body.poster_secret !== bounty.posterSecret) {
+      throw new HttpError(403, "Invalid poster_secret");
+    }
+    return bounty;
+  };
+
+  route("POST", "/bounties", (ctx) => {
+    const bounty: MockBounty = {
+      id: newBountyId(),
+      posterSecret: newBountyId() + newBountyId(),
+      posterWallet: ctx.agent().walletAddress,
+      status: "open",
+      title: String(ctx.body.title ?? ""),
+      description: String(ctx.body.description ?? ""),
+      budget: Number(ctx.body.budget ?? 0),
+      category: String(ctx.body.category ?? ""),
+      tags: String(ctx.body.tags ?? ""),
+      candidates: [],
+      rejectedCandidateIds: [],
+      createdAt: new Date().toISOString(),
+    };
+    state.bounties.set(bounty.id, bounty);
+    return { data: { bounty: { id: bounty.id }, poster_secret: bounty.posterSecret } };
+  });
+  route("GET", "/bounties/:id/match-status", (ctx) => {
+    const bounty = requireBounty(ctx);
+    if (bounty.status === "open") {
+      bounty.candidates = bountyCandidates(state, bounty);
+      if (bounty.candidates.length > 0) bounty.status = "pending_match";
+    }
+    return { data: { status: bounty.status, candidates: bounty.candidates } };
+  });
+  route("POST", "/bounties/:id/confirm-match", (ctx) => {
+    const bounty = requireBounty(ctx);
+    bounty.selectedCandidateId = Number(ctx.body.candidate_id);
+    bounty.acpJobId = String(ctx.body.acp_job_id ?? "");
+    bounty.status = "claimed";
+    return { data: { status: bounty.status } };
+  });
+  route("PUT", "/bounties/:id", (ctx) => {
+    const bounty = requireBounty(ctx);
+    for (const key of ["title", "description", "tags"] as const) {
+      if (ctx.body[key] !== undefined) bounty[key] = String(ctx.body[key]);
+    }
+    if (ctx.body.budget !== undefined) bounty.budget = Number(ctx.body.budget);
+    return { data: { ...bounty, posterSecret: undefined } };
+  });
+  route("POST", "/bounties/:id/reject-candidates", (ctx) => {
+    const bounty = requireBounty(ctx);
+    bounty.rejectedCandidateIds.push(...bounty.candidates.map((c) => Number(c.id)));
+    bounty.candidates = [];
+    bounty.status = "open";
+    return { data: { status: bounty.status } };
+  });
+  route("POST", "/bounties/:id/job-status", (ctx) => {
+    const bounty = requireBounty(ctx);
+    const job = bounty.acpJobId ? state.jobs.get(Number(bounty.acpJobId)) : undefined;
+    if (job?.phase === AcpJobPhase.COMPLETED) bounty.status = "fulfilled";
+    if (job && (job.phase === AcpJobPhase.REJECTED || job.phase === AcpJobPhase.EXPIRED)) {
+      bounty.status = "rejected";
+    }
+    return { data: { status: bounty.status, jobPhase: job ? phaseName(job.phase) : null } };
+  });
+
+  // -- Mock controls --
+
+  route("GET", "/mock/state", () => ({
+    data: {
+      agents: [...state.agents.values()].map(({ apiKey: _apiKey, ...a }) => a),
+      jobs: [...state.jobs.values()].map(toRestJob),
+      bounties: [...state.bounties.values()],
+    },
+  }));
+  route("POST", "/mock/jobs", (ctx) => {
+    const body = { ...ctx.body };
+    if (!body.providerWalletAddress) {
+      body.providerWalletAddress = [...state.agents.values()][0]?.walletAddress;
+    }
+    // Offerings need not be registered, so local handlers can be tested right away
+    const job = openJob(String(ctx.body.clientAddress ?? MOCK_BUYER_WALLET), body, false);
+    return { data: { jobId: job.id } };
+  });
+  route("POST", "/mock/jobs/:id/pay", (ctx) => {
+    const job = requireJob(ctx.params.id);
+    const amount = ctx.body?.amount;
+    pay(job, typeof amount === "number" ? amount : undefined);
+    return { data: toRestJob(job) };
+  });
+  route("POST", "/mock/reset", () => {
+    state.jobs.clear();
+    state.bounties.clear();
+    state.idempotencyKeys.clear();
+    return { data: { success: true } };
+  });
+
+  // -- Dispatch --
+
+  httpServer.on("request", async (req, res) => {
+    // socket.io handles its own path
+    if (req.url?.startsWith("/socket.io/")) return;
+
+    const url = new URL(req.url ?? "/", "http://localhost");
+    const send = (status: number, body: unknown) => {
+      res.writeHead(status, { "Content-Type": "application/json" });
+      res.end(JSON.stringify(body));
+    };
+
+    try {
+      const match = routes
+        .filter((r) => r.method === req.method)
+        .map((r) => ({ r, m: r.pattern.exec(url.pathname) }))
+        .find((x) => x.m);
+      if (!match) throw new HttpError(404, `No mock route for ${req.method} ${url.pathname}`);
+
+      const params: Record<string, string> = {};
+      match.r.keys.forEach((key, i) => (params[key] = match.m![i + 1]));
+
+      const idempotencyKey = req.headers["idempotency-key"];
+      const replayKey = typeof idempotencyKey === "string" ? idempotencyKey : undefined;
+      if (replayKey && state.idempotencyKeys.has(replayKey)) {
+        send(409, {
+          error: `Request ${replayKey} was already applied`,
+          idempotencyKey: replayKey,
+        });
+        return;
+      }
+
+      const ctx: RequestContext = {
+        params,
+        query: url.searchParams,
+        body: await readBody(req),
+        headers: req.headers,
+        agent: () => {
+          const key = req.headers["x-api-key"];
+          if (typeof key !== "string" || !key) throw new HttpError(401, "Missing x-api-key");
+          return agentForKey(state, key);
+        },
+      };
+      const result = await match.r.handler(ctx);
+      if (replayKey) state.idempotencyKeys.add(replayKey);
+      send(200, result);
+    } catch (err) {
+      const status = err instanceof HttpError ? err.status : 500;
+      send(status, { error: err instanceof Error ? err.message : String(err) });
+    }
+  });
+
+  const port = opts.port ?? DEFAULT_MOCK_PORT;
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once("error", reject);
+    httpServer.listen(port, "127.0.0.1", () => resolve());
+  });
+  const address = httpServer.address();
+  const actualPort = typeof address === "object" && address ? address.port : port;
+
+  return {
+    url: `http://127.0.0.1:${actualPort}`,
+    port: actualPort,
+    state,
+    close: () =>
+      new Promise<void>((resolve) => {
+        // Also closes the underlying HTTP server
+        io.close(() => resolve());
+      }),
+  };
+}
@@ -0,0 +1,236 @@
+// =============================================================================
+// In-memory state for the local ACP mock server.
+//
+// Agents are keyed by API key. Agents already in config.json are seeded with
+// their real key, name and wallet so the CLI and seller runtime work against
+// the mock unchanged; any other key gets a fresh mock agent on first use.
+// =============================================================================
+
+import { createHash, randomUUID } from "crypto";
+import { readConfig } from "../lib/config.js";
+import { AcpJobPhase, MemoType } from "../seller/runtime/types.js";
+
+export interface MockOffering {
+  name: string;
+  description: string;
+  priceV2: { type: string; value: number };
+  slaMinutes: number;
+  requiredFunds: boolean;
+  requirement: Record<string, any>;
+  deliverable: string;
+  [key: string]: unknown;
+}
+
+export interface MockResource {
+  name: string;
+  description: string;
+  url: string;
+  params?: Record<string, any>;
+}
+
+export interface MockAgent {
+  id: number;
+  apiKey: string;
+  name: string;
+  description: string;
+  walletAddress: string;
+  tokenAddress: string;
+  token: { name: string; symbol: string };
+  jobs: MockOffering[];
+  resources: MockResource[];
+  [key: string]: unknown;
+}
+
+export interface MockMemo {
+  id: number;
+  memoType: MemoType;
+  content: string;
+  nextPhase: AcpJobPhase;
+  createdAt: string;
+  status: "PENDING" | "APPROVED" | "REJECTED";
+  payableDetail?: Record<string, any>;
+}
+
+export interface MockJob {
+  id: number;
+  phase: AcpJobPhase;
+  name: string;
+  clientAddress: string;
+  providerAddress: string;
+  evaluatorAddress: string;
+  price: number;
+  priceType: string;
+  memos: MockMemo[];
+  context: Record<string, any>;
+  deliverable?: unknown;
+  createdAt: string;
+  /** Memo the provider is expected to sign next (REQUEST phase). */
+  memoToSign?: number;
+}
+
+export interface MockBounty {
+  id: string;
+  posterSecret: string;
+  posterWallet: string;
+  status: string;
+  title: string;
+  description: string;
+  budget: number;
+  category: string;
+  tags: string;
+  candidates: Record<string, unknown>[];
+  rejectedCandidateIds: number[];
+  selectedCandidateId?: number;
+  acpJobId?: string;
+  createdAt: string;
+}
+
+export interface MockState {
+  agents: Map<string, MockAgent>;
+  jobs: Map<number, MockJob>;
+  bounties: Map<string, MockBounty>;
+  /** Idempotency keys already applied (replays get 409 Conflict). */
+  idempotencyKeys: Set<string>;
+  nextJobId: number;
+  nextMemoId: number;
+  nextAgentId: number;
+}
+
+/** Phases after which a job no longer shows up in `acp job active`. */
+export const TERMINAL_PHASES: ReadonlySet<AcpJobPhase> = new Set([
+  AcpJobPhase.COMPLETED,
+  AcpJobPhase.REJECTED,
+  AcpJobPhase.EXPIRED,
+]);
+
+function walletFor(seed: string): string {
+  return "0x" + createHash("sha256").update(seed).digest("hex").slice(0, 40);
+}
+
+function newAgent(state: MockState, apiKey: string, name: string, walletAddress?: string) {
+  const agent: MockAgent = {
+    id: state.nextAgentId++,
+    apiKey,
+    name,
+    description: "",
+    walletAddress: walletAddress ?? walletFor(apiKey),
+    tokenAddress: "",
+    token: { name: "", symbol: "" },
+    jobs: [],
+    resources: [],
+  };
+  state.agents.set(apiKey, agent);
+  return agent;
+}
+
+export function createMockState(opts: { seedFromConfig?: boolean } = {}): MockState {
+  const state: MockState = {
+    agents: new Map(),
+    jobs: new Map(),
+    bounties: new Map(),
+    idempotencyKeys: new Set(),
+    // Start from the clock so ids never repeat across restarts and collide with
+    // jobs already recorded in the seller's job journal
+    nextJobId: Math.floor(Date.now() / 1000),
+    nextMemoId: 1,
+    nextAgentId: 1,
+  };
+
+  if (opts.seedFromConfig !== false) {
+    const config = readConfig();
+    for (const a of config.agents ?? []) {
+      if (a.apiKey) newAgent(state, a.apiKey, a.name, a.walletAddress);
+    }
+    const key = config.LITE_AGENT_API_KEY;
+    if (key && !state.agents.has(key)) newAgent(state, key, "mock-agent");
+  }
+
+  return state;
+}
+
+/** The agent for an API key, created on first use. */
+export function agentForKey(state: MockState, apiKey: string): MockAgent {
+  return state.agents.get(apiKey) ?? newAgent(state, apiKey, `mock-agent-${state.nextAgentId}`);
+}
+
+export function findAgentByWallet(state: MockState, wallet: string): MockAgent | undefined {
+  const lower = wallet.toLowerCase();
+  return [...state.agents.values()].find((a) => a.walletAddress.toLowerCase() === lower);
+}
+
+export function addMemo(
+  state: MockState,
+  job: MockJob,
+  memo: Omit<MockMemo, "id" | "createdAt" | "status"> & { status?: MockMemo["status"] }
+): MockMemo {
+  const full: MockMemo = {
+    id: state.nextMemoId++,
+    createdAt: new Date().toISOString(),
+    status: "APPROVED",
+    ...memo,
+  };
+  job.memos.push(full);
+  return full;
+}
+
+export function createJob(
+  state: MockState,
+  params: {
+    clientAddress: string;
+    providerAddress: string;
+    evaluatorAddress?: string;
+    offering: MockOffering | undefined;
+    offeringName: string;
+    requirements: Record<string, any>;
+  }
+): MockJob {
+  const job: MockJob = {
+    id: state.nextJobId++,
+    phase: AcpJobPhase.REQUEST,
+    name: params.offeringName,
+    clientAddress: params.clientAddress,
+    providerAddress: params.providerAddress,
+    evaluatorAddress: params.evaluatorAddress ?? "",
+    price: params.offering?.priceV2.value ?? 0,
+    priceType: params.offering?.priceV2.type ?? "fixed",
+    memos: [],
+    context: {},
+    createdAt: new Date().toISOString(),
+  };
+  const negotiation = addMemo(state, job, {
+    memoType: MemoType.MESSAGE,
+    content: JSON.stringify({ name: params.offeringName, requirement: params.requirements }),
+    nextPhase: AcpJobPhase.NEGOTIATION,
+    status: "PENDING",
+  });
+  job.memoToSign = negotiation.id;
+  state.jobs.set(job.id, job);
+  return job;
+}
+
+/** Candidates for a bounty: every offering of every other agent. */
+export function bountyCandidates(state: MockState, bounty: MockBounty): Record<string, unknown>[] {
+  const candidates: Record<string, unknown>[] = [];
+  let id = 1;
+  for (const agent of state.agents.values()) {
+    if (agent.walletAddress.toLowerCase() === bounty.posterWallet.toLowerCase()) continue;
+    for (const offering of agent.jobs) {
+      const candidateId = id++;
+      if (bounty.rejectedCandidateIds.includes(candidateId)) continue;
+      candidates.push({
+        id: candidateId,
+        agentName: agent.name,
+        walletAddress: agent.walletAddress,
+        offeringName: offering.name,
+        price: offering.priceV2.value,
+        priceType: offering.priceV2.type,
+        requirementSchema: offering.requirement,
+      });
+    }
+  }
+  return candidates;
+}
+
+export function newBountyId(): string {
+  return randomUUID().slice(0, 8);
+}
@@ -1,76 +1,281 @@
 // =============================================================================
 // Socket.io client that connects to the ACP backend and dispatches events.
+//
+// Besides dispatching events, the client keeps a ConnectionState the rest of
+// the runtime can query: it reconnects with a configurable backoff (also when
+// the server closes the connection, which socket.io leaves closed), expects a
+// `roomJoined` acknowledgement after every connect (and reconnects to re-join
+// when none arrives), and logs an error while the seller stays disconnected.
 // =============================================================================
 
 import { io, type Socket } from "socket.io-client";
-import { SocketEvent, type AcpJobEventData } from "./types.js";
+import { SocketEvent, AcpJobPhase, type AcpJobEventData } from "./types.js";
+import { createLogger } from "./logger.js";
+import { socketConnected, socketReconnects } from "./metrics.js";
+
+const log = createLogger("socket");
 
 export interface AcpSocketCallbacks {
   onNewTask: (data: AcpJobEventData) => void;
   onEvaluate?: (data: AcpJobEventData) => void;
+  /** Fired on the first connection and after every reconnect. */
+  onConnect?: () => void;
+  onDisconnect?: (reason: string) => void;
+  /** Fired whenever the connection state changes or an event arrives. */
+  onStateChange?: (state: ConnectionState) => void;
+  /** Every reconnect attempt in the policy failed; the socket stays closed. */
+  onReconnectFailed?: () => void;
+}
+
+/** How the socket reconnects and when a lost connection is reported. */
+export interface ReconnectPolicy {
+  /** First reconnect delay; doubles on every attempt (with jitter). */
+  delayMs: number;
+  maxDelayMs: number;
+  /** Give up after this many attempts (0 = never give up). */
+  maxAttempts: number;
+  /** How long to wait for `roomJoined` after connecting before reconnecting. */
+  roomJoinTimeoutMs: number;
+  /** Log an error once the seller has been disconnected this long, and again every interval after. */
+  disconnectAlertMs: number;
 }
 
 export interface AcpSocketOptions {
   acpUrl: string;
   walletAddress: string;
   callbacks: AcpSocketCallbacks;
+  policy?: ReconnectPolicy;
+}
+
+export interface ConnectionState {
+  status: "connecting" | "connected" | "disconnected" | "closed";
+  /** When the current connection was established. */
+  connectedSince?: string;
+  /** When the connection was lost (or first attempted), while not connected. */
+  disconnectedSince?: string;
+  disconnectReason?: string;
+  /** Whether ACP acknowledged the current connection with `roomJoined`. */
+  roomJoined: boolean;
+  /** Last event received from ACP. */
+  lastEvent?: { name: string; at: string; jobId?: number };
+  /** Last heartbeat (ping) from the server. */
+  lastHeartbeatAt?: string;
+  reconnects: number;
+  lastError?: string;
+}
+
+export interface AcpSocketConnection {
+  state(): ConnectionState;
+  /** Disconnect for good (no reconnects). */
+  disconnect(): void;
+}
+
+function nonNegativeInt(value: string | undefined, fallback: number): number {
+  const n = Number(value);
+  return value !== undefined && value !== "" && Number.isInteger(n) && n >= 0 ? n : fallback;
+}
+
+/** Reconnect policy from ACP_SOCKET_* environment variables. */
+export function reconnectPolicyFromEnv(env: NodeJS.ProcessEnv = process.env): ReconnectPolicy {
+  return {
+    delayMs: nonNegativeInt(env.ACP_SOCKET_RECONNECT_DELAY_MS, 1_000),
+    maxDelayMs: nonNegativeInt(env.ACP_SOCKET_RECONNECT_MAX_DELAY_MS, 30_000),
+    maxAttempts: nonNegativeInt(env.ACP_SOCKET_RECONNECT_ATTEMPTS, 0),
+    roomJoinTimeoutMs: nonNegativeInt(env.ACP_SOCKET_ROOM_JOIN_TIMEOUT_MS, 15_000),
+    disconnectAlertMs: nonNegativeInt(env.ACP_SOCKET_DISCONNECT_ALERT_MS, 120_000),
+  };
+}
+
+function formatDuration(ms: number): string {
+  const s = Math.round(ms / 1000);
+  if (s < 60) return `${s}s`;
+  if (s < 3600) return `${Math.floor(s / 60)}m ${s % 60}s`;
+  return `${Math.floor(s / 3600)}h ${Math.floor((s % 3600) / 60)}m`;
 }
 
 /**
  * Connect to the ACP socket and start listening for seller events.
- * Returns a cleanup function that disconnects the socket.
+ * Returns a handle for querying the connection state and disconnecting.
  */
-export function connectAcpSocket(opts: AcpSocketOptions): () => void {
+export function connectAcpSocket(opts: AcpSocketOptions): AcpSocketConnection {
   const { acpUrl, walletAddress, callbacks } = opts;
+  const policy = opts.policy ?? reconnectPolicyFromEnv();
 
   const socket: Socket = io(acpUrl, {
     auth: { walletAddress },
     transports: ["websocket"],
+    reconnectionDelay: policy.delayMs,
+    reconnectionDelayMax: policy.maxDelayMs,
+    reconnectionAttempts: policy.maxAttempts > 0 ? policy.maxAttempts : Infinity,
   });
 
+  const state: ConnectionState = {
+    status: "connecting",
+    disconnectedSince: new Date().toISOString(),
+    roomJoined: false,
+    reconnects: 0,
+  };
+  const changed = (patch: Partial<ConnectionState>) => {
+    Object.assign(state, patch);
+    callbacks.onStateChange?.({ ...state });
+  };
+  const received = (name: string, jobId?: number) =>
+    changed({ lastEvent: { name, at: new Date().toISOString(), jobId } });
+
+  // -- Prolonged disconnection --
+
+  let alertTimer: NodeJS.Timeout | undefined;
+  const watchDisconnection = () => {
+    clearInterval(alertTimer);
+    if (policy.disconnectAlertMs <= 0) return;
+    alertTimer = setInterval(() => {
+      const since = Date.parse(state.disconnectedSince ?? "");
+      log.error(
+        `Disconnected from ACP for ${formatDuration(Date.now() - since)} — no jobs are being received`,
+        { reason: state.disconnectReason, lastError: state.lastError }
+      );
+    }, policy.disconnectAlertMs);
+    alertTimer.unref();
+  };
+  watchDisconnection();
+
+  // -- Room membership --
+
+  let roomTimer: NodeJS.Timeout | undefined;
+  const expectRoomJoined = () => {
+    clearTimeout(roomTimer);
+    if (policy.roomJoinTimeoutMs <= 0) return;
+    roomTimer = setTimeout(() => {
+      log.warn(
+        `No roomJoined acknowledgement within ${formatDuration(policy.roomJoinTimeoutMs)} — reconnecting to re-join`
+      );
+      socket.disconnect();
+      socket.connect();
+    }, policy.roomJoinTimeoutMs);
+    roomTimer.unref();
+  };
+
   socket.on(SocketEvent.ROOM_JOINED, (_data: unknown, callback?: (ack: boolean) => void) => {
-    console.log("[socket] Joined ACP room");
+    log.info("Joined ACP room");
     if (typeof callback === "function") callback(true);
+    clearTimeout(roomTimer);
+    serverCloses = 0;
+    changed({ roomJoined: true });
+    received(SocketEvent.ROOM_JOINED);
   });
 
   socket.on(SocketEvent.ON_NEW_TASK, (data: AcpJobEventData, callback?: (ack: boolean) => void) => {
     if (typeof callback === "function") callback(true);
-    console.log(`[socket] onNewTask  jobId=${data.id}  phase=${data.phase}`);
+    log.info(`onNewTask  jobId=${data.id}  phase=${data.phase}`, {
+      jobId: data.id,
+      phase: AcpJobPhase[data.phase],
+    });
+    received(SocketEvent.ON_NEW_TASK, data.id);
     callbacks.onNewTask(data);
   });
 
   socket.on(SocketEvent.ON_EVALUATE, (data: AcpJobEventData, callback?: (ack: boolean) => void) => {
     if (typeof callback === "function") callback(true);
-    console.log(`[socket] onEvaluate  jobId=${data.id}  phase=${data.phase}`);
+    log.info(`onEvaluate  jobId=${data.id}  phase=${data.phase}`, {
+      jobId: data.id,
+      phase: AcpJobPhase[data.phase],
+    });
+    received(SocketEvent.ON_EVALUATE, data.id);
     if (callbacks.onEvaluate) {
       callbacks.onEvaluate(data);
     }
   });
 
+  // -- Server-initiated disconnects --
+
+  // socket.io does not reconnect by itself when the server closes the
+  // connection ("io server disconnect"), so reconnect explicitly, backing off
+  // while the server keeps closing it before the room is joined.
+  let serverCloses = 0;
+  let reconnectTimer: NodeJS.Timeout | undefined;
+  const reconnectAfterServerClose = () => {
+    const delay = Math.min(policy.maxDelayMs, policy.delayMs * 2 ** serverCloses++);
+    log.warn(`ACP closed the connection — reconnecting in ${formatDuration(delay)}`);
+    clearTimeout(reconnectTimer);
+    reconnectTimer = setTimeout(() => {
+      if (state.status === "closed") return;
+      changed({ status: "connecting" });
+      socket.connect();
+    }, delay);
+  };
+
+  // -- Connection lifecycle --
+
+  let connectedBefore = false;
+
   socket.on("connect", () => {
-    console.log("[socket] Connected to ACP");
+    const downFor = Date.now() - Date.parse(state.disconnectedSince ?? "");
+    log.info(
+      connectedBefore ? `Reconnected to ACP after ${formatDuration(downFor)}` : "Connected to ACP"
+    );
+    if (connectedBefore) socketReconnects.inc();
+    socketConnected.set(1);
+    clearInterval(alertTimer);
+    expectRoomJoined();
+    changed({
+      status: "connected",
+      connectedSince: new Date().toISOString(),
+      disconnectedSince: undefined,
+      disconnectReason: undefined,
+      lastError: undefined,
+      roomJoined: false,
+      reconnects: state.reconnects + (connectedBefore ? 1 : 0),
+    });
+    connectedBefore = true;
+    callbacks.onConnect?.();
   });
 
   socket.on("disconnect", (reason) => {
-    console.log(`[socket] Disconnected: ${reason}`);
+    log.info(`Disconnected: ${reason}`);
+    socketConnected.set(0);
+    clearTimeout(roomTimer);
+    if (state.status !== "closed") watchDisconnection();
+    changed({
+      status: state.status === "closed" ? "closed" : "disconnected",
+      connectedSince: undefined,
+      disconnectedSince: new Date().toISOString(),
+      disconnectReason: reason,
+      roomJoined: false,
+    });
+    if (reason === "io server disconnect" && state.status !== "closed") {
+      reconnectAfterServerClose();
+    }
+    callbacks.onDisconnect?.(reason);
   });
 
   socket.on("connect_error", (err) => {
-    console.error(`[socket] Connection error: ${err.message}`);
+    log.error("Connection error", { error: err.message });
+    changed({ lastError: err.message });
   });
 
-  const disconnect = () => {
-    socket.disconnect();
-  };
+  socket.io.on("ping", () => {
+    changed({ lastHeartbeatAt: new Date().toISOString() });
+  });
 
-  process.on("SIGINT", () => {
-    disconnect();
-    process.exit(0);
+  socket.io.on("reconnect_attempt", (attempt) => {
+    log.debug(`Reconnect attempt ${attempt}`);
   });
-  process.on("SIGTERM", () => {
-    disconnect();
-    process.exit(0);
+
+  socket.io.on("reconnect_failed", () => {
+    log.error(`Giving up on reconnecting after ${policy.maxAttempts} attempt(s)`);
+    clearInterval(alertTimer);
+    changed({ status: "closed" });
+    callbacks.onReconnectFailed?.();
   });
 
-  return disconnect;
+  return {
+    state: () => ({ ...state }),
+    disconnect: () => {
+      clearInterval(alertTimer);
+      clearTimeout(roomTimer);
+      clearTimeout(reconnectTimer);
+      changed({ status: "closed" });
+      socket.disconnect();
+    },
+  };
 }
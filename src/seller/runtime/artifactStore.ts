@@ -0,0 +1,339 @@
+// =============================================================================
+// Artifact store for large deliverables.
+//
+// A deliverable bigger than ACP_ARTIFACT_THRESHOLD_BYTES is uploaded to the
+// configured store and replaced by a short `{ type: "artifact" }` deliverable
+// carrying a signed URL and the content's SHA-256, so the OBJECT_URL memo
+// stays small. Stores (ACP_ARTIFACT_STORE):
+//
+//   local — files under logs/artifacts/, served by the seller's HTTP server
+//           (GET /artifacts/<key>?expires=..&signature=.., HMAC-signed) and
+//           deleted by the seller once their URLs have expired
+//   s3    — any S3-compatible bucket (see s3Store.ts)
+//
+// Without ACP_ARTIFACT_STORE deliverables are always sent inline.
+// =============================================================================
+
+import * as fs from "fs";
+import * as path from "path";
+import { createHash, createHmac, randomBytes, timingSafeEqual } from "crypto";
+import { LOGS_DIR } from "../../lib/config.js";
+import { createS3Store } from "./s3Store.js";
+import type { ExecuteJobResult } from "./offeringTypes.js";
+import { createLogger } from "./logger.js";
+
+const log = createLogger("artifacts");
+
+export const ARTIFACTS_DIR = path.resolve(LOGS_DIR, "artifacts");
+
+/** Deliverables up to this size (bytes, serialized) are sent inline. */
+export const DEFAULT_ARTIFACT_THRESHOLD_BYTES = 16 * 1024;
+/** Lifetime of signed URLs: 7 days, the most S3 allows. */
+export const DEFAULT_ARTIFACT_URL_TTL_SECONDS = 7 * 24 * 3600;
+
+export interface StoredArtifact {
+  /** Signed URL the buyer downloads the artifact from. */
+  url: string;
+  expiresAt: string;
+}
+
+export interface ArtifactStore {
+  kind: string;
+  /** Store `body` under `key` (overwriting it) and return a signed URL for it. */
+  put(key: string, body: Buffer, contentType: string): Promise<StoredArtifact>;
+}
+
+// -- Local store --
+
+export interface LocalStoreOptions {
+  /** Base URL the seller's HTTP server is reachable at, e.g. https://my-seller.up.railway.app */
+  publicUrl: string;
+  secret: string;
+  ttlSeconds: number;
+  dir?: string;
+}
+
+const KEY_PATTERN = /^[A-Za-z0-9._-]+(\/[A-Za-z0-9._-]+)*$/;
+
+function validKey(key: string): boolean {
+  return KEY_PATTERN.test(key) && !key.split("/").some((s) => s === "." || s === "..");
+}
+
+function localSignature(secret: string, key: string, expires: number): string {
+  return createHmac("sha256", secret).update(`${key}\n${expires}`).digest("hex");
+}
+
+/** Secret from ACP_ARTIFACT_SECRET, else one generated once and kept under logs/artifacts/. */
+function localSecret(env: NodeJS.ProcessEnv, dir: string): string {
+  if (env.ACP_ARTIFACT_SECRET) return env.ACP_ARTIFACT_SECRET;
+  const file = path.join(dir, ".secret");
+  try {
+    return fs.readFileSync(file, "utf-8").trim();
+  } catch {
+    fs.mkdirSync(dir, { recursive: true });
+    const secret = randomBytes(32).toString("hex");
+    fs.writeFileSync(file, secret + "\n", { mode: 0o600 });
+    return secret;
+  }
+}
+
+export function createLocalStore(opts: LocalStoreOptions): ArtifactStore {
+  const dir = opts.dir ?? ARTIFACTS_DIR;
+  const base = opts.publicUrl.replace(/\/+$/, "");
+  return {
+    kind: "local",
+    async put(key, body, contentType) {
+      if (!validKey(key)) throw new Error(`Invalid artifact key: ${key}`);
+      const file = path.join(dir, key);
+      fs.mkdirSync(path.dirname(file), { recursive: true });
+      fs.writeFileSync(file, body);
+      fs.writeFileSync(`${file}.type`, contentType);
+      const expires = Math.floor(Date.now() / 1000) + opts.ttlSeconds;
+      const signature = localSignature(opts.secret, key, expires);
+      return {
+        url: `${base}/artifacts/${key}?expires=${expires}&signature=${signature}`,
+        expiresAt: new Date(expires * 1000).toISOString(),
+      };
+    },
+  };
+}
+
+export interface ArtifactResponse {
+  status: number;
+  contentType: string;
+  body: Buffer | string;
+}
+
+/**
+ * Answer a GET for /artifacts/<key>: the file if the URL's signature is valid
+ * and unexpired, 403 otherwise (400 for a malformed path, 404 if the file is
+ * gone). Never throws — it runs inside the HTTP server's request handler.
+ */
+export function serveLocalArtifact(
+  url: URL,
+  opts: { secret: string; dir?: string }
+): ArtifactResponse {
+  const dir = opts.dir ?? ARTIFACTS_DIR;
+  const denied = { status: 403, contentType: "text/plain", body: "Forbidden\n" };
+  let key: string;
+  let expires: number;
+  let given: Buffer;
+  try {
+    key = decodeURIComponent(url.pathname.replace(/^\/artifacts\//, ""));
+    expires = Number(url.searchParams.get("expires"));
+    given = Buffer.from(url.searchParams.get("signature") ?? "", "utf-8");
+    if (!validKey(key) || !Number.isInteger(expires)) return denied;
+  } catch {
+    return { status: 400, contentType: "text/plain", body: "Bad Request\n" };
+  }
+  const expected = Buffer.from(localSignature(opts.secret, key, expires), "utf-8");
+  if (given.length !== expected.length || !timingSafeEqual(given, expected)) return denied;
+  if (expires * 1000 < Date.now()) return { ...denied, body: "URL expired\n" };
+
+  const file = path.join(dir, key);
+  try {
+    if (!fs.statSync(file).isFile()) throw new Error("not a file");
+  } catch {
+    return { status: 404, contentType: "text/plain", body: "Not Found\n" };
+  }
+  let contentType = "application/octet-stream";
+  try {
+    contentType = fs.readFileSync(`${file}.type`, "utf-8");
+  } catch {
+    // served as a plain download
+  }
+  try {
+    return { status: 200, contentType, body: fs.readFileSync(file) };
+  } catch {
+    return { status: 500, contentType: "text/plain", body: "Internal Server Error\n" };
+  }
+}
+
+/**
+ * Delete local artifacts whose signed URLs have expired. A file's URL is issued
+ * when the file is written, so one older than `ttlSeconds` can no longer be
+ * downloaded. The signing secret is kept. Returns the number of files deleted;
+ * never throws.
+ */
+export function sweepLocalArtifacts(
+  ttlSeconds: number,
+  dir: string = ARTIFACTS_DIR,
+  now: number = Date.now()
+): number {
+  const cutoff = now - ttlSeconds * 1000;
+  let deleted = 0;
+  const sweep = (current: string): void => {
+    let entries: fs.Dirent[];
+    try {
+      entries = fs.readdirSync(current, { withFileTypes: true });
+    } catch {
+      return;
+    }
+    for (const entry of entries) {
+      const file = path.join(current, entry.name);
+      if (entry.isDirectory()) {
+        sweep(file);
+        try {
+          fs.rmdirSync(file); // only succeeds once the job's directory is empty
+        } catch {
+          // still holds live artifacts
+        }
+        continue;
+      }
+      if (current === dir && entry.name === ".secret") continue;
+      try {
+        if (fs.statSync(file).mtimeMs < cutoff) {
+          fs.unlinkSync(file);
+          deleted++;
+        }
+      } catch (err) {
+        log.warn(`Could not delete expired artifact ${file}`, { error: err });
+      }
+    }
+  };
+  sweep(dir);
+  if (deleted > 0) log.info(`Deleted ${deleted} expired artifact file(s) from ${dir}`);
+  return deleted;
+}
+
+// -- Configuration --
+
+function positiveInt(value: string | undefined, fallback: number): number {
+  const n = Number(value);
+  return Number.isInteger(n) && n > 0 ? n : fallback;
+}
+
+export interface ArtifactConfig {
+  store: ArtifactStore;
+  thresholdBytes: number;
+  /** Set for the local store: what the seller needs to serve it and sweep it. */
+  local?: { secret: string; ttlSeconds: number };
+}
+
+/**
+ * The artifact store configured by ACP_ARTIFACT_* environment variables, or
+ * undefined when ACP_ARTIFACT_STORE is unset. Throws on an incomplete setup.
+ * `port` is the seller's HTTP port, used for local URLs when no public URL is set.
+ */
+export function artifactConfigFromEnv(
+  port: number,
+  env: NodeJS.ProcessEnv = process.env
+): ArtifactConfig | undefined {
+  const kind = env.ACP_ARTIFACT_STORE?.trim().toLowerCase();
+  if (!kind) return undefined;
+  const thresholdBytes = positiveInt(
+    env.ACP_ARTIFACT_THRESHOLD_BYTES,
+    DEFAULT_ARTIFACT_THRESHOLD_BYTES
+  );
+  const ttlSeconds = positiveInt(
+    env.ACP_ARTIFACT_URL_TTL_SECONDS,
+    DEFAULT_ARTIFACT_URL_TTL_SECONDS
+  );
+
+  if (kind === "local") {
+    if (port <= 0) {
+      throw new Error(
+        "ACP_ARTIFACT_STORE=local needs the seller's HTTP server — set PORT (or ACP_SELLER_METRICS_PORT)"
+      );
+    }
+    // Buyers download from this address, so a localhost fallback would hand them dead links
+    const publicUrl =
+      env.ACP_ARTIFACT_PUBLIC_URL ||
+      (env.RAILWAY_PUBLIC_DOMAIN ? `https://${env.RAILWAY_PUBLIC_DOMAIN}` : undefined);
+    if (!publicUrl) {
+      throw new Error(
+        "ACP_ARTIFACT_STORE=local needs the seller's public address — set ACP_ARTIFACT_PUBLIC_URL (or RAILWAY_PUBLIC_DOMAIN)"
+      );
+    }
+    const secret = localSecret(env, ARTIFACTS_DIR);
+    return {
+      store: createLocalStore({ publicUrl, secret, ttlSeconds }),
+      thresholdBytes,
+      local: { secret, ttlSeconds },
+    };
+  }
+
+  if (kind === "s3") {
+    const missing = ["ACP_ARTIFACT_S3_BUCKET", "AWS_ACCESS_KEY_ID", "AWS_SECRET_ACCESS_KEY"].filter(
+      (name) => !env[name]
+    );
+    if (missing.length > 0) {
+      throw new Error(`ACP_ARTIFACT_STORE=s3 needs ${missing.join(", ")}`);
+    }
+    return {
+      store: createS3Store({
+        bucket: env.ACP_ARTIFACT_S3_BUCKET!,
+        region: env.ACP_ARTIFACT_S3_REGION || env.AWS_REGION || "us-east-1",
+        endpoint: env.ACP_ARTIFACT_S3_ENDPOINT || undefined,
+        prefix: env.ACP_ARTIFACT_S3_PREFIX || undefined,
+        accessKeyId: env.AWS_ACCESS_KEY_ID!,
+        secretAccessKey: env.AWS_SECRET_ACCESS_KEY!,
+        sessionToken: env.AWS_SESSION_TOKEN || undefined,
+        ttlSeconds,
+      }),
+      thresholdBytes,
+    };
+  }
+
+  throw new Error(`Unknown ACP_ARTIFACT_STORE "${env.ACP_ARTIFACT_STORE}" (use "local" or "s3")`);
+}
+
+let current: ArtifactConfig | undefined;
+
+/** Use `config` for large deliverables from now on; undefined sends everything inline. */
+export function setArtifactStore(config: ArtifactConfig | undefined): void {
+  current = config;
+}
+
+// -- Offloading deliverables --
+
+const SUMMARY_CHARS = 200;
+
+/**
+ * If the result's deliverable is over the threshold, upload it and return the
+ * result with a short artifact deliverable in its place; otherwise return the
+ * result unchanged. The object key includes the content hash, so delivering
+ * the same result again overwrites the same artifact.
+ */
+export async function offloadDeliverable(
+  jobId: number,
+  result: ExecuteJobResult
+): Promise<ExecuteJobResult> {
+  if (!current) return result;
+  const { deliverable } = result;
+  const isText = typeof deliverable === "string";
+  const body = Buffer.from(isText ? deliverable : JSON.stringify(deliverable), "utf-8");
+  if (body.length <= current.thresholdBytes) return result;
+
+  const sha256 = createHash("sha256").update(body).digest("hex");
+  const contentType = isText ? "text/plain; charset=utf-8" : "application/json";
+  const key = `jobs/${jobId}/deliverable-${sha256.slice(0, 16)}.${isText ? "txt" : "json"}`;
+  const stored = await current.store.put(key, body, contentType);
+  log.info(
+    `Job ${jobId} — deliverable (${body.length} bytes) stored as artifact (${current.store.kind})`,
+    { jobId, bytes: body.length, sha256 }
+  );
+
+  const summary =
+    result.summary ??
+    (isText
+      ? deliverable.length > SUMMARY_CHARS
+        ? `${deliverable.slice(0, SUMMARY_CHARS)}…`
+        : deliverable
+      : `${deliverable.type} deliverable (${body.length} bytes) — download from url`);
+  return {
+    ...result,
+    deliverable: {
+      type: "artifact",
+      value: {
+        url: stored.url,
+        sha256,
+        bytes: body.length,
+        contentType,
+        expiresAt: stored.expiresAt,
+        ...(isText ? {} : { originalType: deliverable.type }),
+        summary,
+      },
+    },
+  };
+}
@@ -0,0 +1,67 @@
+// =============================================================================
+// Deliverable attachments: the extra artifacts an `executeJob` result can carry
+// besides its deliverable.
+//
+// The ACP API has no endpoint for posting memos of our own, so attachments
+// travel inside the delivery: the deliverable is wrapped as
+// `{ type: "bundle", value: { deliverable, attachments } }`, each attachment
+// being `{ url, name, mimeType, media }` for a link or
+// `{ content, name, mimeType, media }` for inline text. A bundle over the
+// artifact threshold is moved to the artifact store like any large deliverable.
+// =============================================================================
+
+import type { AttachmentMedia } from "./memos.js";
+import type { DeliverableAttachment, ExecuteJobResult } from "./offeringTypes.js";
+
+const MEDIA: AttachmentMedia[] = ["context", "image", "voice", "object"];
+
+/** What is wrong with a result's `attachments`; empty when they can be delivered. */
+export function attachmentProblems(attachments: unknown): string[] {
+  if (attachments === undefined) return [];
+  if (!Array.isArray(attachments)) return ["attachments must be an array"];
+  const problems: string[] = [];
+  attachments.forEach((a: DeliverableAttachment, i) => {
+    const at = `attachments[${i}]`;
+    if (!a || typeof a !== "object") {
+      problems.push(`${at} must be an object`);
+      return;
+    }
+    if ((a.url === undefined) === (a.content === undefined)) {
+      problems.push(`${at} must have either url or content`);
+    }
+    if (a.url !== undefined && !/^https?:\/\//.test(String(a.url))) {
+      problems.push(`${at}.url must be an http(s) URL`);
+    }
+    if (a.content !== undefined && typeof a.content !== "string") {
+      problems.push(`${at}.content must be a string`);
+    }
+    if (a.media !== undefined && !MEDIA.includes(a.media)) {
+      problems.push(`${at}.media must be one of ${MEDIA.join(", ")}`);
+    }
+  });
+  return problems;
+}
+
+/**
+ * The result as it is delivered: unchanged without attachments, otherwise
+ * with the deliverable and its attachments wrapped into one bundle.
+ */
+export function bundleAttachments(result: ExecuteJobResult): ExecuteJobResult {
+  const { attachments, ...rest } = result;
+  if (!attachments?.length) return rest;
+  return {
+    ...rest,
+    deliverable: {
+      type: "bundle",
+      value: {
+        deliverable: result.deliverable,
+        attachments: attachments.map(({ media, url, content, name, mimeType }) => ({
+          ...(url !== undefined ? { url } : { content }),
+          name,
+          mimeType,
+          media: media ?? "object",
+        })),
+      },
+    },
+  };
+}
@@ -0,0 +1,141 @@
+// =============================================================================
+// Dead-letter store — seller API calls that failed after every retry, and
+// handler executions that threw.
+//
+// Entries are kept in logs/dead-letter.json until they are replayed
+// successfully (`acp serve retry <jobId>`) or removed, so no accept, payment
+// request, delivery or computed deliverable is lost. A "refund" entry records
+// buyer funds the seller received for a job it rejected, which have to be
+// returned by hand.
+// =============================================================================
+
+import * as fs from "fs";
+import * as path from "path";
+import { randomUUID } from "crypto";
+import { LOGS_DIR } from "../../lib/config.js";
+
+export const DEAD_LETTER_PATH = path.resolve(LOGS_DIR, "dead-letter.json");
+
+/**
+ * The seller API call that failed, "execute" for a handler that threw, or
+ * "refund" for received funds owed back to the buyer.
+ */
+export type DeadLetterAction =
+  | "accept"
+  | "requestPayment"
+  | "reject"
+  | "deliver"
+  | "execute"
+  | "refund";
+
+export interface DeadLetterEntry {
+  id: string;
+  jobId: number;
+  action: DeadLetterAction;
+  /**
+   * Request body of the failed call, replayed as-is (empty for "execute"; for
+   * "refund", the `{ recipient, amount, tokenAddress }` owed).
+   */
+  params: Record<string, any>;
+  offering?: string;
+  requirements?: Record<string, any>;
+  /** The computed deliverable, for failed deliveries. */
+  deliverable?: unknown;
+  error: string;
+  /** HTTP status of the last attempt, if the server responded. */
+  status?: number;
+  attempts: number;
+  failedAt: string;
+}
+
+interface DeadLetterFile {
+  entries: DeadLetterEntry[];
+}
+
+/** Set by useInMemoryDeadLetters(): entries live here instead of on disk. */
+let inMemory: DeadLetterFile | undefined;
+
+/** Keep dead letters in memory only, starting empty (`acp job simulate`). */
+export function useInMemoryDeadLetters(): void {
+  inMemory = { entries: [] };
+}
+
+function readState(): DeadLetterFile {
+  if (inMemory) return { entries: [...inMemory.entries] };
+  if (!fs.existsSync(DEAD_LETTER_PATH)) return { entries: [] };
+  try {
+    const raw = JSON.parse(fs.readFileSync(DEAD_LETTER_PATH, "utf-8"));
+    if (Array.isArray(raw?.entries)) {
+      return { entries: raw.entries as DeadLetterEntry[] };
+    }
+  } catch {
+    return { entries: [] };
+  }
+  return { entries: [] };
+}
+
+function writeState(next: DeadLetterFile): void {
+  if (inMemory) {
+    inMemory = next;
+    return;
+  }
+  fs.mkdirSync(LOGS_DIR, { recursive: true });
+  const tmpPath = `${DEAD_LETTER_PATH}.tmp`;
+  fs.writeFileSync(tmpPath, JSON.stringify(next, null, 2) + "\n");
+  fs.renameSync(tmpPath, DEAD_LETTER_PATH);
+}
+
+/**
+ * Record a failed call. A job has at most one entry per action: a repeated
+ * failure replaces the earlier entry (keeping its id) and adds to its attempts.
+ */
+export function addDeadLetter(entry: Omit<DeadLetterEntry, "id" | "failedAt">): DeadLetterEntry {
+  const state = readState();
+  const index = state.entries.findIndex(
+    (e) => e.jobId === entry.jobId && e.action === entry.action
+  );
+  const previous = index === -1 ? undefined : state.entries[index];
+  const full: DeadLetterEntry = {
+    id: previous?.id ?? randomUUID(),
+    failedAt: new Date().toISOString(),
+    ...entry,
+    attempts: entry.attempts + (previous?.attempts ?? 0),
+  };
+  if (previous) {
+    state.entries[index] = full;
+  } else {
+    state.entries.push(full);
+  }
+  writeState(state);
+  return full;
+}
+
+export function listDeadLetters(): DeadLetterEntry[] {
+  return readState().entries;
+}
+
+export function getDeadLetter(id: string): DeadLetterEntry | undefined {
+  return readState().entries.find((e) => e.id === id);
+}
+
+/** Entries for a job, oldest first. */
+export function findDeadLetters(jobId: number): DeadLetterEntry[] {
+  return readState().entries.filter((e) => e.jobId === jobId);
+}
+
+export function removeDeadLetter(id: string): void {
+  const state = readState();
+  const entries = state.entries.filter((e) => e.id !== id);
+  if (entries.length !== state.entries.length) {
+    writeState({ entries });
+  }
+}
+
+/** Drop a job's entry for `action`, once a later attempt has gone through. */
+export function clearDeadLetters(jobId: number, action: DeadLetterAction): void {
+  const state = readState();
+  const entries = state.entries.filter((e) => !(e.jobId === jobId && e.action === action));
+  if (entries.length !== state.entries.length) {
+    writeState({ entries });
+  }
+}
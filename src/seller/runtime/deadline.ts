@@ -0,0 +1,79 @@
+// =============================================================================
+// Deadlines for offering handlers.
+// =============================================================================
+
+import { MemoType, type AcpMemoData } from "./types.js";
+
+/** SLA used when offering.json does not set `slaMinutes` (matches `acp sell create`). */
+export const DEFAULT_SLA_MINUTES = 5;
+
+/** Time limit for validateRequirements / requestPayment / requestAdditionalFunds. */
+export const DEFAULT_HANDLER_TIMEOUT_MS = 30_000;
+
+/** Share of the SLA reserved for delivering the result after the handler returns. */
+const DELIVERY_MARGIN_RATIO = 0.1;
+const MIN_DELIVERY_MARGIN_MS = 15_000;
+
+export class DeadlineExceededError extends Error {
+  readonly timeoutMs: number;
+
+  constructor(label: string, timeoutMs: number) {
+    super(`${label} did not finish within ${Math.round(timeoutMs / 1000)}s`);
+    this.name = "DeadlineExceededError";
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+/** How long `executeJob` may run for an offering with the given SLA. */
+export function executionTimeoutMs(slaMinutes: number | undefined): number {
+  const sla = (slaMinutes && slaMinutes > 0 ? slaMinutes : DEFAULT_SLA_MINUTES) * 60_000;
+  const margin = Math.max(MIN_DELIVERY_MARGIN_MS, sla * DELIVERY_MARGIN_RATIO);
+  return Math.max(sla - margin, sla / 2);
+}
+
+/**
+ * When a paid job's SLA clock started: the buyer's newest PAYABLE_TRANSFER memo
+ * (the payment itself), else `enteredTransactionAt` — when the TRANSACTION
+ * event reached the runtime. The seller's own payment request is not used: the
+ * time the buyer takes to pay is not the seller's.
+ */
+export function slaStartedAt(memos: AcpMemoData[], enteredTransactionAt: number): number {
+  const paidAt = memos
+    .filter((m) => m.memoType === MemoType.PAYABLE_TRANSFER && m.createdAt)
+    .map((m) => Date.parse(m.createdAt!))
+    .filter((t) => Number.isFinite(t));
+  return paidAt.length > 0 ? Math.max(...paidAt) : enteredTransactionAt;
+}
+
+/** How long an optional (request-phase) handler may run; override with ACP_HANDLER_TIMEOUT_MS. */
+export function handlerTimeoutMs(): number {
+  const fromEnv = Number(process.env.ACP_HANDLER_TIMEOUT_MS);
+  return Number.isFinite(fromEnv) && fromEnv > 0 ? fromEnv : DEFAULT_HANDLER_TIMEOUT_MS;
+}
+
+/**
+ * Run `fn` with an AbortSignal that fires after `timeoutMs`. Rejects with
+ * DeadlineExceededError at the deadline even if `fn` ignores the signal.
+ */
+export async function runWithDeadline<T>(
+  label: string,
+  timeoutMs: number,
+  fn: (signal: AbortSignal) => Promise<T>
+): Promise<T> {
+  const controller = new AbortController();
+  let timer: NodeJS.Timeout | undefined;
+
+  const deadline = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      const err = new DeadlineExceededError(label, timeoutMs);
+      controller.abort(err);
+      reject(err);
+    }, timeoutMs);
+  });
+
+  try {
+    return await Promise.race([fn(controller.signal), deadline]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
@@ -0,0 +1,81 @@
+// =============================================================================
+// Dynamic loader for evaluators.
+// Evaluators are stored per-agent: src/seller/evaluators/<agent-name>/<evaluator>/
+//
+// An evaluator judges jobs of other providers for which this agent was named
+// evaluator. The one whose directory is named after the job's offering is
+// used; `default/` handles every other offering.
+// =============================================================================
+
+import * as fs from "fs";
+import * as path from "path";
+import { createHash } from "crypto";
+import { fileURLToPath, pathToFileURL } from "url";
+import type { EvaluatorHandlers } from "./offeringTypes.js";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+/** Evaluator used for offerings that have no evaluator of their own. */
+export const DEFAULT_EVALUATOR = "default";
+
+export interface LoadedEvaluator {
+  name: string;
+  handlers: EvaluatorHandlers;
+  /** Short hash of handlers.ts, recorded with every verdict. */
+  version: string;
+}
+
+export function resolveEvaluatorsRoot(agentDirName: string): string {
+  return path.resolve(__dirname, "..", "evaluators", agentDirName);
+}
+
+function handlersPath(evaluatorName: string, agentDirName: string): string {
+  return path.resolve(resolveEvaluatorsRoot(agentDirName), evaluatorName, "handlers.ts");
+}
+
+/**
+ * Name of the evaluator for jobs of `offeringName`: its own directory if there
+ * is one, else `default/`. Undefined if neither exists.
+ */
+export function findEvaluator(
+  offeringName: string | undefined,
+  agentDirName: string
+): string | undefined {
+  const candidates = offeringName ? [offeringName, DEFAULT_EVALUATOR] : [DEFAULT_EVALUATOR];
+  return candidates.find((name) => fs.existsSync(handlersPath(name, agentDirName)));
+}
+
+/**
+ * Import an evaluator's handlers.ts. The module URL includes a hash of the
+ * file, so an edited evaluator is picked up on its next job without a restart.
+ * Throws if the file is missing or does not export `evaluate`.
+ */
+export async function loadEvaluator(
+  evaluatorName: string,
+  agentDirName: string
+): Promise<LoadedEvaluator> {
+  const file = handlersPath(evaluatorName, agentDirName);
+  if (!fs.existsSync(file)) {
+    throw new Error(`handlers.ts not found: ${file}`);
+  }
+  const version = createHash("sha256").update(fs.readFileSync(file)).digest("hex").slice(0, 8);
+  const handlers = (await import(`${pathToFileURL(file).href}?v=${version}`)) as EvaluatorHandlers;
+
+  if (typeof handlers.evaluate !== "function") {
+    throw new Error(`handlers.ts in evaluator "${evaluatorName}" must export an evaluate function`);
+  }
+  return { name: evaluatorName, handlers, version };
+}
+
+/**
+ * List all evaluator names for a given agent.
+ */
+export function listEvaluators(agentDirName: string): string[] {
+  const root = resolveEvaluatorsRoot(agentDirName);
+  if (!fs.existsSync(root)) return [];
+  return fs
+    .readdirSync(root, { withFileTypes: true })
+    .filter((d) => d.isDirectory())
+    .map((d) => d.name);
+}
@@ -0,0 +1,163 @@
+// =============================================================================
+// Running offering handlers under deadlines: executeJob under the offering's
+// SLA, the optional request-phase handlers under ACP_HANDLER_TIMEOUT_MS.
+// Shared by the seller runtime and CLI commands that execute handlers.
+// =============================================================================
+
+import {
+  DEFAULT_SLA_MINUTES,
+  DeadlineExceededError,
+  executionTimeoutMs,
+  handlerTimeoutMs,
+  runWithDeadline,
+} from "./deadline.js";
+import type { LoadedOffering } from "./offerings.js";
+import { checkDeliverable } from "./schema.js";
+import { attachmentProblems } from "./attachments.js";
+import type { ExecuteJobResult, HandlerContext } from "./offeringTypes.js";
+import { createLogger } from "./logger.js";
+import { handlerDuration } from "./metrics.js";
+import { AcpJobPhase } from "./types.js";
+
+const log = createLogger("seller");
+
+/** Thrown when a handler's deliverable does not match the offering's `deliverableSchema`. */
+export class DeliverableSchemaError extends Error {
+  readonly errors: string[];
+  /** The rejected deliverable, kept for inspection in the dead-letter store. */
+  readonly deliverable: unknown;
+
+  constructor(jobId: number, errors: string[], deliverable: unknown) {
+    super(`Deliverable for job ${jobId} does not match deliverableSchema: ${errors.join("; ")}`);
+    this.name = "DeliverableSchemaError";
+    this.errors = errors;
+    this.deliverable = deliverable;
+  }
+}
+
+/** Deliverable sent in place of a result when the handler misses its deadline. */
+function timeoutResult(
+  jobId: number,
+  slaMinutes: number | undefined,
+  err: DeadlineExceededError
+): ExecuteJobResult {
+  return {
+    deliverable: {
+      type: "error",
+      value: {
+        error: "timeout",
+        jobId,
+        message: `The job could not be completed within the offering's SLA (${slaMinutes ?? DEFAULT_SLA_MINUTES} minutes).`,
+        timeoutMs: err.timeoutMs,
+      },
+    },
+  };
+}
+
+/** True for the failure deliverable runExecuteJob returns when executeJob misses its deadline. */
+export function isTimeoutResult(result: ExecuteJobResult): boolean {
+  const { deliverable } = result;
+  return (
+    typeof deliverable === "object" &&
+    deliverable.type === "error" &&
+    (deliverable.value as { error?: unknown } | null)?.error === "timeout"
+  );
+}
+
+function observeDuration(offering: string, handler: string, started: number): void {
+  handlerDuration.observe({ offering, handler }, (Date.now() - started) / 1000);
+}
+
+/**
+ * Run `executeJob` with `ctx.signal` replaced by one bound to the offering's
+ * SLA. With `slaStartedAt` the handler only gets what is left of the SLA since
+ * then, and is not run at all when nothing is left. A missed deadline
+ * resolves to a structured failure deliverable; any
+ * other handler error is rethrown. The result is checked against the
+ * offering's `deliverableSchema` (DeliverableSchemaError if it does not match),
+ * and its `attachments` must be well-formed.
+ */
+export async function runExecuteJob(
+  offering: LoadedOffering,
+  requirements: Record<string, any>,
+  ctx: HandlerContext,
+  slaStartedAt?: number
+): Promise<ExecuteJobResult> {
+  const { config, handlers } = offering;
+  const { jobId } = ctx;
+  const jobLog = log.child({ jobId, offering: config.name, phase: AcpJobPhase[ctx.phase] });
+  const budgetMs = executionTimeoutMs(config.slaMinutes);
+  const elapsedMs = slaStartedAt !== undefined ? Math.max(0, Date.now() - slaStartedAt) : 0;
+  const timeoutMs = budgetMs - elapsedMs;
+  if (timeoutMs <= 0) {
+    jobLog.error(
+      `Job ${jobId} — SLA already used up (${Math.round(elapsedMs / 1000)}s since payment); not running executeJob, delivering failure notice`,
+      { elapsedMs }
+    );
+    return timeoutResult(
+      jobId,
+      config.slaMinutes,
+      new DeadlineExceededError(`executeJob for job ${jobId}`, budgetMs)
+    );
+  }
+  jobLog.info(
+    `Executing offering "${config.name}" (version ${offering.version}) for job ${jobId} (deadline ${Math.round(timeoutMs / 1000)}s)...`,
+    { version: offering.version }
+  );
+  const started = Date.now();
+  let result: ExecuteJobResult;
+  try {
+    result = await runWithDeadline(`executeJob for job ${jobId}`, timeoutMs, (signal) =>
+      handlers.executeJob(requirements, { ...ctx, signal })
+    );
+  } catch (err) {
+    if (!(err instanceof DeadlineExceededError)) throw err;
+    jobLog.error(`Job ${jobId} — ${err.message}; delivering failure notice`, {
+      durationMs: Date.now() - started,
+    });
+    return timeoutResult(jobId, config.slaMinutes, err);
+  } finally {
+    observeDuration(config.name, "executeJob", started);
+  }
+  jobLog.info(`executeJob finished for job ${jobId}`, { durationMs: Date.now() - started });
+
+  const problems = checkDeliverable(config.deliverableSchema, result?.deliverable);
+  if (problems.length > 0) {
+    throw new DeliverableSchemaError(jobId, problems, result?.deliverable);
+  }
+  const invalid = attachmentProblems(result.attachments);
+  if (invalid.length > 0) {
+    throw new Error(`Invalid attachments for job ${jobId}: ${invalid.join("; ")}`);
+  }
+  return result;
+}
+
+/**
+ * Run an optional handler (validateRequirements, requestPayment,
+ * requestAdditionalFunds), awaiting it if it is async. `ctx.signal` aborts and
+ * DeadlineExceededError is thrown if it runs past ACP_HANDLER_TIMEOUT_MS.
+ */
+export async function runHandler<T>(
+  name: string,
+  ctx: HandlerContext,
+  fn: (ctx: HandlerContext) => T | Promise<T>
+): Promise<T> {
+  const started = Date.now();
+  let result: T;
+  try {
+    result = await runWithDeadline(
+      `${name} for job ${ctx.jobId}`,
+      handlerTimeoutMs(),
+      async (signal) => fn({ ...ctx, signal })
+    );
+  } finally {
+    observeDuration(ctx.offering, name, started);
+  }
+  log.debug(`${name} finished for job ${ctx.jobId}`, {
+    jobId: ctx.jobId,
+    offering: ctx.offering,
+    phase: AcpJobPhase[ctx.phase],
+    durationMs: Date.now() - started,
+  });
+  return result;
+}
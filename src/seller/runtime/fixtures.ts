@@ -0,0 +1,284 @@
+// =============================================================================
+// Fixture-based regression tests for offerings (`acp sell test --all`).
+//
+// Each offering directory may hold a fixtures/ folder:
+//
+//   fixtures/<case>.json              requirements + expected outcome
+//   fixtures/recordings/<case>.json   recorded HTTP responses for the case
+//
+// A case runs through the same harness as `acp sell test`, with HTTP replayed
+// from its recording so results do not depend on live data or the network.
+// =============================================================================
+
+import * as fs from "fs";
+import * as path from "path";
+import { runOfferingTest, type TestRun, type TestStepName } from "./harness.js";
+import {
+  interceptHttp,
+  readRecordings,
+  writeRecordings,
+  type HttpMode,
+  type HttpRecording,
+} from "./httpReplay.js";
+import type { LoadedOffering } from "./offerings.js";
+
+export const FIXTURES_DIR = "fixtures";
+export const RECORDINGS_DIR = "recordings";
+
+/** A check on one value inside the deliverable. */
+export interface FixtureAssertion {
+  /** Dot path into the deliverable, e.g. "value.userView.action" or "value.topPools.0.symbol". */
+  path: string;
+  equals?: unknown;
+  exists?: boolean;
+  /** Regular expression the (string) value must match. */
+  matches?: string;
+  /** Exact length of an array or string. */
+  length?: number;
+  minLength?: number;
+  min?: number;
+  max?: number;
+}
+
+export interface FixtureExpectation {
+  /** Whether every step should pass (default true). */
+  passed?: boolean;
+  /** For expected failures: the step that should fail. */
+  failedStep?: TestStepName;
+  /** For expected failures: text the failure message should contain. */
+  error?: string;
+  /** Expected deliverable; objects match if every listed key matches (extra keys are ignored). */
+  deliverable?: unknown;
+  assertions?: FixtureAssertion[];
+}
+
+export interface Fixture {
+  name: string;
+  description?: string;
+  requirements: Record<string, any>;
+  /** Recording file relative to fixtures/ (default: recordings/<name>.json). */
+  http?: string;
+  expect?: FixtureExpectation;
+}
+
+export interface FixtureResult {
+  offering: string;
+  fixture: string;
+  passed: boolean;
+  /** Why the fixture failed (empty when it passed). */
+  failures: string[];
+  /** Requests the handler made that had no recording. */
+  unrecorded: string[];
+  /** Recording file written in record mode. */
+  recordedTo?: string;
+  run?: TestRun;
+  durationMs: number;
+}
+
+function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+function describe(v: unknown): string {
+  const s = JSON.stringify(v);
+  return s === undefined ? String(v) : s.length > 60 ? `${s.slice(0, 57)}...` : s;
+}
+
+/** Fixture case names (file names without .json) in an offering directory. */
+export function listFixtures(offeringDir: string): string[] {
+  const dir = path.join(offeringDir, FIXTURES_DIR);
+  if (!fs.existsSync(dir)) return [];
+  return fs
+    .readdirSync(dir, { withFileTypes: true })
+    .filter((d) => d.isFile() && d.name.endsWith(".json"))
+    .map((d) => d.name.slice(0, -".json".length))
+    .sort();
+}
+
+export function readFixture(offeringDir: string, name: string): Fixture {
+  const filePath = path.join(offeringDir, FIXTURES_DIR, `${name}.json`);
+  const raw = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    throw new Error(`${FIXTURES_DIR}/${name}.json must contain a JSON object`);
+  }
+  const requirements = raw.requirements ?? {};
+  if (typeof requirements !== "object" || Array.isArray(requirements)) {
+    throw new Error(`${FIXTURES_DIR}/${name}.json: "requirements" must be an object`);
+  }
+  return { ...raw, name, requirements };
+}
+
+function recordingPath(offeringDir: string, fixture: Fixture): string {
+  return path.resolve(
+    offeringDir,
+    FIXTURES_DIR,
+    fixture.http ?? path.join(RECORDINGS_DIR, `${fixture.name}.json`)
+  );
+}
+
+// -- Expectations --
+
+function valueAt(root: unknown, dotPath: string): { found: boolean; value?: unknown } {
+  let value = root;
+  for (const key of dotPath.split(".").filter(Boolean)) {
+    if (value === null || typeof value !== "object" || !(key in value)) return { found: false };
+    value = (value as Record<string, unknown>)[key];
+  }
+  return { found: true, value };
+}
+
+/** Partial deep match: objects match on the expected keys, everything else must be equal. */
+function matchPartial(expected: unknown, actual: unknown, at: string, failures: string[]): void {
+  if (expected !== null && typeof expected === "object" && !Array.isArray(expected)) {
+    if (actual === null || typeof actual !== "object" || Array.isArray(actual)) {
+      failures.push(`${at}: expected an object, got ${describe(actual)}`);
+      return;
+    }
+    for (const [key, value] of Object.entries(expected)) {
+      matchPartial(value, (actual as Record<string, unknown>)[key], `${at}.${key}`, failures);
+    }
+    return;
+  }
+  if (Array.isArray(expected)) {
+    if (!Array.isArray(actual) || actual.length !== expected.length) {
+      failures.push(`${at}: expected ${expected.length} item(s), got ${describe(actual)}`);
+      return;
+    }
+    expected.forEach((item, i) => matchPartial(item, actual[i], `${at}[${i}]`, failures));
+    return;
+  }
+  if (expected !== actual) {
+    failures.push(`${at}: expected ${describe(expected)}, got ${describe(actual)}`);
+  }
+}
+
+function checkAssertion(a: FixtureAssertion, deliverable: unknown, failures: string[]): void {
+  const at = `deliverable.${a.path}`;
+  const { found, value } = valueAt(deliverable, a.path);
+
+  if (a.exists !== undefined) {
+    if (a.exists !== found) failures.push(`${at}: expected to ${a.exists ? "" : "not "}exist`);
+    if (!a.exists) return;
+  }
+  if (!found) {
+    failures.push(`${at}: not found`);
+    return;
+  }
+  if ("equals" in a) matchPartial(a.equals, value, at, failures);
+  if (
+    a.matches !== undefined &&
+    !(typeof value === "string" && new RegExp(a.matches).test(value))
+  ) {
+    failures.push(`${at}: expected to match ${a.matches}, got ${describe(value)}`);
+  }
+  const length = typeof value === "string" || Array.isArray(value) ? value.length : undefined;
+  if (a.length !== undefined && length !== a.length) {
+    failures.push(`${at}: expected length ${a.length}, got ${length ?? describe(value)}`);
+  }
+  if (a.minLength !== undefined && (length === undefined || length < a.minLength)) {
+    failures.push(`${at}: expected length >= ${a.minLength}, got ${length ?? describe(value)}`);
+  }
+  if (a.min !== undefined && !(typeof value === "number" && value >= a.min)) {
+    failures.push(`${at}: expected >= ${a.min}, got ${describe(value)}`);
+  }
+  if (a.max !== undefined && !(typeof value === "number" && value <= a.max)) {
+    failures.push(`${at}: expected <= ${a.max}, got ${describe(value)}`);
+  }
+}
+
+/** Compare a test run with a fixture's expectations. Returns the failures (empty when met). */
+export function checkExpectation(expect: FixtureExpectation, run: TestRun): string[] {
+  const failures: string[] = [];
+  const expectPassed = expect.passed ?? true;
+  const failed = run.steps.find((s) => s.status === "failed");
+
+  if (expectPassed && failed) {
+    failures.push(`${failed.name} failed: ${failed.error}`);
+  } else if (!expectPassed) {
+    if (!failed) {
+      failures.push("expected a step to fail, but every step passed");
+    } else {
+      if (expect.failedStep && failed.name !== expect.failedStep) {
+        failures.push(`expected ${expect.failedStep} to fail, but ${failed.name} failed`);
+      }
+      if (expect.error && !failed.error?.includes(expect.error)) {
+        failures.push(`expected failure containing "${expect.error}", got "${failed.error}"`);
+      }
+    }
+  }
+
+  if (expect.deliverable !== undefined) {
+    matchPartial(expect.deliverable, run.deliverable, "deliverable", failures);
+  }
+  for (const assertion of expect.assertions ?? []) {
+    checkAssertion(assertion, run.deliverable, failures);
+  }
+  return failures;
+}
+
+// -- Running --
+
+export interface FixtureRunOptions {
+  offering: LoadedOffering;
+  offeringDir: string;
+  fixture: string;
+  agentDirName: string;
+  walletAddress: string;
+  /** "record" hits the network and overwrites the case's recording. */
+  mode?: HttpMode;
+}
+
+export async function runFixture(opts: FixtureRunOptions): Promise<FixtureResult> {
+  const started = Date.now();
+  const result = (fields: Partial<FixtureResult>): FixtureResult => ({
+    offering: opts.offering.config.name,
+    fixture: opts.fixture,
+    passed: false,
+    failures: [],
+    unrecorded: [],
+    ...fields,
+    durationMs: Date.now() - started,
+  });
+
+  let fixture: Fixture;
+  let entries: HttpRecording[];
+  const mode = opts.mode ?? "replay";
+  try {
+    fixture = readFixture(opts.offeringDir, opts.fixture);
+    entries = mode === "replay" ? readRecordings(recordingPath(opts.offeringDir, fixture)) : [];
+  } catch (err) {
+    return result({ failures: [`invalid fixture: ${errorMessage(err)}`] });
+  }
+
+  const http = interceptHttp(mode, entries);
+  let run: TestRun;
+  try {
+    run = await runOfferingTest({
+      offering: opts.offering,
+      requirements: fixture.requirements,
+      agentDirName: opts.agentDirName,
+      walletAddress: opts.walletAddress,
+    });
+  } finally {
+    http.restore();
+  }
+
+  let recordedTo: string | undefined;
+  if (mode === "record" && http.entries.length > 0) {
+    recordedTo = recordingPath(opts.offeringDir, fixture);
+    writeRecordings(recordedTo, http.entries);
+  }
+
+  const failures = checkExpectation(fixture.expect ?? {}, run);
+  // Handlers that swallow fetch errors would otherwise pass on missing data
+  for (const request of http.unrecorded) {
+    if (!failures.some((f) => f.includes(request))) failures.push(`unrecorded request: ${request}`);
+  }
+  return result({
+    passed: failures.length === 0,
+    failures,
+    unrecorded: http.unrecorded,
+    recordedTo,
+    run,
+  });
+}
@@ -0,0 +1,57 @@
+// =============================================================================
+// Checks that the additional funds of a `requiredFunds` offering arrived.
+//
+// The amount and token the seller asked for come from the journal's
+// payment_requested step (or, for jobs requested before the journal existed,
+// the PAYABLE_REQUEST memo). What arrived is read from the job's own
+// PAYABLE_TRANSFER memos to the agent's wallet. The wallet balance is not
+// used: it cannot tell one job's transfer from another's, so a job without a
+// transfer memo fails the check.
+// =============================================================================
+
+import { findStep } from "./jobJournal.js";
+import type { JobMemos, PayableMemo } from "./memos.js";
+
+/** Token transfer the seller asked the buyer for. */
+export interface ExpectedFunds {
+  amount: number;
+  tokenAddress: string;
+}
+
+export interface FundsCheck {
+  ok: boolean;
+  expected: ExpectedFunds;
+  /** Amount the job's transfer memos sent to the agent's wallet. */
+  received: number;
+  /** Why the check failed. */
+  reason?: string;
+}
+
+/** Ignore rounding noise when summing decimal token amounts. */
+const AMOUNT_TOLERANCE = 1e-9;
+
+/** The transfer the seller requested for `jobId`, if it requested one. */
+export function expectedFunds(jobId: number, memos: JobMemos): ExpectedFunds | undefined {
+  const requested = findStep(jobId, "payment_requested")?.data?.payableDetail;
+  if (requested?.tokenAddress && typeof requested.amount === "number") {
+    return { amount: requested.amount, tokenAddress: requested.tokenAddress };
+  }
+  const memo = memos.all.filter((m): m is PayableMemo => m.kind === "payableRequest").pop();
+  return memo?.tokenAddress && memo.amount !== undefined
+    ? { amount: memo.amount, tokenAddress: memo.tokenAddress }
+    : undefined;
+}
+
+/** Check that `expected` arrived, according to the job's transfer memos. */
+export function verifyFunds(expected: ExpectedFunds, memos: JobMemos): FundsCheck {
+  const { amount, tokenAddress } = expected;
+  const received = memos.transferred(tokenAddress);
+  if (received + AMOUNT_TOLERANCE >= amount) {
+    return { ok: true, expected, received };
+  }
+  const reason =
+    received > 0
+      ? `Additional funds short: expected ${amount} of token ${tokenAddress}, received ${received}`
+      : `Additional funds not received: no transfer of ${amount} of token ${tokenAddress} to the seller is recorded on the job`;
+  return { ok: false, expected, received, reason };
+}
@@ -0,0 +1,142 @@
+// =============================================================================
+// Builds the `ctx` argument passed to offering handlers.
+//
+// Each offering gets its own JSON key/value store under
+// logs/offering-store/<agent>/<offering>.json (evaluators under
+// logs/offering-store/<agent>/evaluators/<evaluator>.json).
+// =============================================================================
+
+import * as fs from "fs";
+import * as path from "path";
+import { format } from "util";
+import { LOGS_DIR } from "../../lib/config.js";
+import { AcpJobPhase, type AcpJobEventData } from "./types.js";
+import { createLogger } from "./logger.js";
+import { parseJobMemos } from "./memos.js";
+import type { HandlerContext, HandlerLogger, KeyValueStore } from "./offeringTypes.js";
+
+export const OFFERING_STORE_DIR = path.resolve(LOGS_DIR, "offering-store");
+
+/** ctx.logger: console-style arguments, written as entries tagged with the job. */
+function createHandlerLogger(job: AcpJobEventData, offering: string): HandlerLogger {
+  const log = createLogger(offering, { jobId: job.id, offering, phase: AcpJobPhase[job.phase] });
+  const prefix = `[job ${job.id}]`;
+  return {
+    info: (...args) => log.info(format(prefix, ...args)),
+    warn: (...args) => log.warn(format(prefix, ...args)),
+    error: (...args) => log.error(format(prefix, ...args)),
+  };
+}
+
+type ProgressReporter = HandlerContext["progress"];
+
+/**
+ * ctx.progress: each update is written to the job's log. The ACP API has no
+ * endpoint for posting memos of our own, so updates are not sent to the buyer.
+ */
+function createProgressReporter(job: AcpJobEventData, offering: string): ProgressReporter {
+  const log = createLogger(offering, { jobId: job.id, offering, phase: AcpJobPhase[job.phase] });
+  return async (message, percent) => {
+    const clamped =
+      typeof percent === "number" && Number.isFinite(percent)
+        ? Math.min(100, Math.max(0, percent))
+        : undefined;
+    log.info(
+      `[job ${job.id}] progress: ${message}${clamped !== undefined ? ` (${clamped}%)` : ""}`,
+      clamped !== undefined ? { percent: clamped } : {}
+    );
+  };
+}
+
+/**
+ * File-backed store. Every call reads the file fresh so concurrent jobs (and
+ * CLI commands running alongside the seller) see each other's writes.
+ */
+function createStore(agentDirName: string, offering: string): KeyValueStore {
+  const storePath = path.resolve(OFFERING_STORE_DIR, agentDirName, `${offering}.json`);
+
+  const readState = (): Record<string, unknown> => {
+    if (!fs.existsSync(storePath)) return {};
+    try {
+      const raw = JSON.parse(fs.readFileSync(storePath, "utf-8"));
+      return raw && typeof raw === "object" && !Array.isArray(raw) ? raw : {};
+    } catch {
+      return {};
+    }
+  };
+
+  const writeState = (next: Record<string, unknown>): void => {
+    fs.mkdirSync(path.dirname(storePath), { recursive: true });
+    const tmpPath = `${storePath}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify(next, null, 2) + "\n");
+    fs.renameSync(tmpPath, storePath);
+  };
+
+  return {
+    get: <T = unknown>(key: string) => readState()[key] as T | undefined,
+    set: (key, value) => {
+      if (value === undefined) throw new Error("store.set: value must not be undefined");
+      const state = readState();
+      state[key] = value;
+      writeState(state);
+    },
+    delete: (key) => {
+      const state = readState();
+      if (!(key in state)) return;
+      delete state[key];
+      writeState(state);
+    },
+    keys: () => Object.keys(readState()),
+  };
+}
+
+/** In-memory store for runs that must not touch the offering's real store (`acp sell test`). */
+export function createMemoryStore(): KeyValueStore {
+  const state = new Map<string, unknown>();
+  return {
+    get: <T = unknown>(key: string) => state.get(key) as T | undefined,
+    set: (key, value) => {
+      if (value === undefined) throw new Error("store.set: value must not be undefined");
+      state.set(key, JSON.parse(JSON.stringify(value)));
+    },
+    delete: (key) => {
+      state.delete(key);
+    },
+    keys: () => [...state.keys()],
+  };
+}
+
+export interface HandlerContextOptions {
+  job: AcpJobEventData;
+  offering: string;
+  agentDirName: string;
+  walletAddress: string;
+  /** Defaults to a signal that never aborts. */
+  signal?: AbortSignal;
+  /** Defaults to the offering's file-backed store. */
+  store?: KeyValueStore;
+  /** File-backed store to use when `store` is not given; defaults to `offering`. */
+  storeName?: string;
+  /** Defaults to writing each update to the job's log (nothing is sent to the buyer). */
+  progress?: ProgressReporter;
+}
+
+export function createHandlerContext(opts: HandlerContextOptions): HandlerContext {
+  const { job, offering } = opts;
+  return {
+    jobId: job.id,
+    phase: job.phase,
+    clientAddress: job.clientAddress,
+    providerAddress: job.providerAddress,
+    evaluatorAddress: job.evaluatorAddress,
+    price: job.price,
+    memos: job.memos,
+    parsedMemos: parseJobMemos(job.memos, opts.walletAddress),
+    walletAddress: opts.walletAddress,
+    offering,
+    logger: createHandlerLogger(job, offering),
+    signal: opts.signal ?? new AbortController().signal,
+    store: opts.store ?? createStore(opts.agentDirName, opts.storeName ?? offering),
+    progress: opts.progress ?? createProgressReporter(job, offering),
+  };
+}
@@ -0,0 +1,287 @@
+// =============================================================================
+// Local test harness for offerings (`acp sell test`).
+//
+// Runs an offering's handlers in the same order as the seller runtime —
+// requirement schema → validateRequirements → quotePrice →
+// requestAdditionalFunds → requestPayment → executeJob — against a fake job, without accepting,
+// requesting payment or delivering anything on ACP. Handlers get an
+// in-memory store so test runs never touch the offering's real store.
+// =============================================================================
+
+import { createHandlerContext, createMemoryStore } from "./handlerContext.js";
+import { DeliverableSchemaError, isTimeoutResult, runExecuteJob, runHandler } from "./execution.js";
+import type { LoadedOffering } from "./offerings.js";
+import { checkRequirements } from "./schema.js";
+import { describeQuote, resolveQuote } from "./pricing.js";
+import { AcpJobPhase, MemoType, type AcpJobEventData } from "./types.js";
+import type {
+  AdditionalFundsRequest,
+  DeliverableAttachment,
+  ExecuteJobResult,
+  ValidationResult,
+} from "./offeringTypes.js";
+
+/** Job id used for test runs (never a real ACP job). */
+export const TEST_JOB_ID = 0;
+
+/** Stand-in buyer wallet for test runs. */
+export const TEST_CLIENT_ADDRESS = "0x000000000000000000000000000000000000c11e";
+
+export type TestStepName =
+  | "requirements"
+  | "validateRequirements"
+  | "quotePrice"
+  | "requestAdditionalFunds"
+  | "requestPayment"
+  | "executeJob";
+
+export interface TestStep {
+  name: TestStepName;
+  status: "passed" | "failed" | "skipped";
+  durationMs: number;
+  /** What the step produced (coerced requirements, handler return value, ...). */
+  output?: unknown;
+  /** Why the step failed, or why it was skipped. */
+  error?: string;
+}
+
+export interface TestRun {
+  offering: string;
+  passed: boolean;
+  steps: TestStep[];
+  /** The deliverable executeJob produced, if it got that far. */
+  deliverable?: unknown;
+  /** Attachments returned alongside the deliverable. */
+  attachments?: DeliverableAttachment[];
+  /** `ctx.progress` updates, in the order the handlers sent them. */
+  progress: { message: string; percent?: number }[];
+  durationMs: number;
+}
+
+export interface TestRunOptions {
+  offering: LoadedOffering;
+  requirements: Record<string, any>;
+  agentDirName: string;
+  walletAddress: string;
+}
+
+function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+/** A job in the given phase carrying the requirements in its negotiation memo, as ACP sends it. */
+function fakeJob(
+  offeringName: string,
+  requirements: Record<string, any>,
+  walletAddress: string,
+  price: number,
+  phase: AcpJobPhase
+): AcpJobEventData {
+  return {
+    id: TEST_JOB_ID,
+    phase,
+    clientAddress: TEST_CLIENT_ADDRESS,
+    providerAddress: walletAddress,
+    evaluatorAddress: "",
+    price,
+    memos: [
+      {
+        id: 1,
+        memoType: MemoType.MESSAGE,
+        content: JSON.stringify({ name: offeringName, requirement: requirements }),
+        nextPhase: AcpJobPhase.NEGOTIATION,
+        createdAt: new Date().toISOString(),
+      },
+    ],
+    context: {},
+    memoToSign: phase === AcpJobPhase.REQUEST ? 1 : undefined,
+  };
+}
+
+/**
+ * Run one offering end to end. Stops at the first failing step (the runtime
+ * would reject or fail the job there); later steps are reported as skipped.
+ */
+export async function runOfferingTest(opts: TestRunOptions): Promise<TestRun> {
+  const { config, handlers } = opts.offering;
+  const started = Date.now();
+  const steps: TestStep[] = [];
+  let deliverable: unknown;
+  let attachments: DeliverableAttachment[] | undefined;
+  const progress: TestRun["progress"] = [];
+
+  const store = createMemoryStore();
+  const contextFor = (phase: AcpJobPhase, requirements: Record<string, any>) =>
+    createHandlerContext({
+      job: fakeJob(config.name, requirements, opts.walletAddress, config.jobFee, phase),
+      offering: config.name,
+      agentDirName: opts.agentDirName,
+      walletAddress: opts.walletAddress,
+      store,
+      progress: async (message, percent) => {
+        progress.push({ message, ...(percent !== undefined ? { percent } : {}) });
+      },
+    });
+
+  const finish = (): TestRun => ({
+    offering: config.name,
+    passed: steps.every((s) => s.status !== "failed"),
+    steps,
+    deliverable,
+    ...(attachments ? { attachments } : {}),
+    progress,
+    durationMs: Date.now() - started,
+  });
+
+  /** Run a step, record it and return whether the run should continue. */
+  const step = async (
+    name: TestStepName,
+    fn: () => Promise<{ output?: unknown; error?: string }>
+  ): Promise<boolean> => {
+    const stepStarted = Date.now();
+    try {
+      const { output, error } = await fn();
+      steps.push({
+        name,
+        status: error ? "failed" : "passed",
+        durationMs: Date.now() - stepStarted,
+        output,
+        ...(error ? { error } : {}),
+      });
+      return !error;
+    } catch (err) {
+      steps.push({
+        name,
+        status: "failed",
+        durationMs: Date.now() - stepStarted,
+        error: errorMessage(err),
+      });
+      return false;
+    }
+  };
+  const skip = (name: TestStepName, reason: string) =>
+    steps.push({ name, status: "skipped", durationMs: 0, error: reason });
+
+  // -- Requirement schema --
+  let requirements = opts.requirements;
+  const schemaOk = await step("requirements", async () => {
+    const checked = checkRequirements(config.requirement, opts.requirements);
+    if (!checked.valid) return { error: `Invalid requirements: ${checked.errors.join("; ")}` };
+    requirements = checked.value;
+    return { output: requirements };
+  });
+  if (!schemaOk) return finishSkipped(finish, skip, "requirements");
+
+  const requestCtx = contextFor(AcpJobPhase.REQUEST, requirements);
+
+  // -- validateRequirements --
+  const validate = handlers.validateRequirements;
+  if (validate) {
+    const ok = await step("validateRequirements", async () => {
+      const result: ValidationResult = await runHandler("validateRequirements", requestCtx, (c) =>
+        validate(requirements, c)
+      );
+      const valid = typeof result === "boolean" ? result : result.valid;
+      const reason = typeof result === "boolean" ? undefined : result.reason;
+      return valid
+        ? { output: result }
+        : { output: result, error: `Rejected: ${reason || "Validation failed"}` };
+    });
+    if (!ok) return finishSkipped(finish, skip, "validateRequirements");
+  } else {
+    skip("validateRequirements", "not exported");
+  }
+
+  // -- quotePrice --
+  const quotePrice = handlers.quotePrice;
+  if (quotePrice) {
+    const ok = await step("quotePrice", async () => {
+      const quote = resolveQuote(
+        await runHandler("quotePrice", requestCtx, (c) => quotePrice(requirements, c)),
+        config.jobFee
+      );
+      return { output: { ...quote, memo: describeQuote(quote) } };
+    });
+    if (!ok) return finishSkipped(finish, skip, "quotePrice");
+  } else {
+    skip("quotePrice", "not exported");
+  }
+
+  // -- requestAdditionalFunds --
+  let funds: AdditionalFundsRequest | undefined;
+  const requestFunds = config.requiredFunds ? handlers.requestAdditionalFunds : undefined;
+  if (requestFunds) {
+    const ok = await step("requestAdditionalFunds", async () => {
+      funds = await runHandler("requestAdditionalFunds", requestCtx, (c) =>
+        requestFunds(requirements, c)
+      );
+      return { output: funds };
+    });
+    if (!ok) return finishSkipped(finish, skip, "requestAdditionalFunds");
+  } else {
+    skip(
+      "requestAdditionalFunds",
+      config.requiredFunds ? "not exported" : "offering does not require funds"
+    );
+  }
+
+  // -- requestPayment --
+  const paymentMessage = handlers.requestPayment;
+  if (paymentMessage) {
+    const ok = await step("requestPayment", async () => ({
+      output: await runHandler("requestPayment", requestCtx, (c) =>
+        paymentMessage(requirements, c)
+      ),
+    }));
+    if (!ok) return finishSkipped(finish, skip, "requestPayment");
+  } else {
+    skip(
+      "requestPayment",
+      `not exported — runtime sends "${funds?.content ?? "Request accepted"}"`
+    );
+  }
+
+  // -- executeJob --
+  await step("executeJob", async () => {
+    let result: ExecuteJobResult;
+    try {
+      result = await runExecuteJob(
+        opts.offering,
+        requirements,
+        contextFor(AcpJobPhase.TRANSACTION, requirements)
+      );
+    } catch (err) {
+      // Show what would have been delivered, not just why it was refused
+      if (err instanceof DeliverableSchemaError) deliverable = err.deliverable;
+      throw err;
+    }
+    deliverable = result.deliverable;
+    attachments = result.attachments;
+    return isTimeoutResult(result)
+      ? { output: result, error: "executeJob missed its SLA deadline" }
+      : { output: result };
+  });
+
+  return finish();
+}
+
+const STEP_ORDER: TestStepName[] = [
+  "requirements",
+  "validateRequirements",
+  "quotePrice",
+  "requestAdditionalFunds",
+  "requestPayment",
+  "executeJob",
+];
+
+/** Mark every step after `failedAt` as skipped and finish the run. */
+function finishSkipped(
+  finish: () => TestRun,
+  skip: (name: TestStepName, reason: string) => void,
+  failedAt: TestStepName
+): TestRun {
+  for (const name of STEP_ORDER.slice(STEP_ORDER.indexOf(failedAt) + 1)) {
+    skip(name, `${failedAt} failed`);
+  }
+  return finish();
+}
@@ -0,0 +1,196 @@
+// =============================================================================
+// Recorded HTTP for offering fixtures (`acp sell test --all`).
+//
+// While a fixture runs, requests made through the default axios instance and
+// global fetch are routed through a recording. In replay mode they are
+// answered from saved responses and anything not recorded fails; in record
+// mode they go to the network and the responses are saved. Requests are
+// matched by method and full URL (including the query string).
+// =============================================================================
+
+import * as fs from "fs";
+import * as path from "path";
+import axios, {
+  AxiosError,
+  type AxiosAdapter,
+  type AxiosResponse,
+  type InternalAxiosRequestConfig,
+} from "axios";
+
+export interface HttpRecording {
+  method: string;
+  url: string;
+  status: number;
+  headers: Record<string, string>;
+  /** Parsed JSON when the response was JSON, otherwise the raw text. */
+  body: unknown;
+}
+
+export interface HttpRecordingFile {
+  recordedAt: string;
+  entries: HttpRecording[];
+}
+
+export type HttpMode = "replay" | "record";
+
+/** Thrown (to the handler) for a request that has no recorded response in replay mode. */
+export class UnrecordedRequestError extends Error {
+  readonly method: string;
+  readonly url: string;
+
+  constructor(method: string, url: string) {
+    super(`No recorded response for ${method} ${url} (re-record with --record)`);
+    this.name = "UnrecordedRequestError";
+    this.method = method;
+    this.url = url;
+  }
+}
+
+export function readRecordings(filePath: string): HttpRecording[] {
+  if (!fs.existsSync(filePath)) return [];
+  const file = JSON.parse(fs.readFileSync(filePath, "utf-8")) as Partial<HttpRecordingFile>;
+  return Array.isArray(file.entries) ? file.entries : [];
+}
+
+export function writeRecordings(filePath: string, entries: HttpRecording[]): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  const file: HttpRecordingFile = { recordedAt: new Date().toISOString(), entries };
+  fs.writeFileSync(filePath, JSON.stringify(file, null, 2) + "\n");
+}
+
+function parseBody(raw: unknown): unknown {
+  if (typeof raw !== "string") return raw;
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return raw;
+  }
+}
+
+function serializeBody(body: unknown): string {
+  return typeof body === "string" ? body : JSON.stringify(body);
+}
+
+/** Only content-type is kept: other headers (dates, cookies, ids) just add noise to diffs. */
+function pickHeaders(get: (name: string) => string | null | undefined): Record<string, string> {
+  const contentType = get("content-type");
+  return contentType ? { "content-type": String(contentType) } : {};
+}
+
+export interface HttpInterceptor {
+  /** Recordings after the run (replayed entries plus anything newly recorded). */
+  entries: HttpRecording[];
+  /** Requests that had no recording (replay mode only). */
+  unrecorded: string[];
+  /** Undo the interception. */
+  restore(): void;
+}
+
+/**
+ * Route axios (default instance) and global fetch through `entries` until
+ * `restore()` is called. Only one interceptor may be active at a time.
+ */
+export function interceptHttp(mode: HttpMode, entries: HttpRecording[]): HttpInterceptor {
+  const recordings = [...entries];
+  const unrecorded: string[] = [];
+
+  const find = (method: string, url: string) =>
+    recordings.find((e) => e.method === method && e.url === url);
+
+  const save = (entry: HttpRecording) => {
+    const i = recordings.findIndex((e) => e.method === entry.method && e.url === entry.url);
+    if (i >= 0) recordings[i] = entry;
+    else recordings.push(entry);
+  };
+
+  const lookup = (method: string, url: string): HttpRecording => {
+    const entry = find(method, url);
+    if (entry) return entry;
+    unrecorded.push(`${method} ${url}`);
+    throw new UnrecordedRequestError(method, url);
+  };
+
+  // -- axios --
+  const previousAdapter = axios.defaults.adapter;
+  const networkAdapter = axios.getAdapter(previousAdapter);
+
+  const axiosAdapter: AxiosAdapter = async (config: InternalAxiosRequestConfig) => {
+    const method = (config.method ?? "get").toUpperCase();
+    const url = axios.getUri(config);
+
+    if (mode === "record") {
+      const keep = (res: AxiosResponse) =>
+        save({
+          method,
+          url,
+          status: res.status,
+          headers: pickHeaders((name) => res.headers?.[name]),
+          body: parseBody(res.data),
+        });
+      try {
+        const res = await networkAdapter(config);
+        keep(res);
+        return res;
+      } catch (err) {
+        if (err instanceof AxiosError && err.response) keep(err.response);
+        throw err;
+      }
+    }
+
+    const entry = lookup(method, url);
+    const response: AxiosResponse = {
+      data: serializeBody(entry.body),
+      status: entry.status,
+      statusText: String(entry.status),
+      headers: entry.headers,
+      config,
+      request: {},
+    };
+    const validate = config.validateStatus;
+    if (!validate || validate(entry.status)) return response;
+    throw new AxiosError(
+      `Request failed with status code ${entry.status}`,
+      entry.status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+      config,
+      undefined,
+      response
+    );
+  };
+  axios.defaults.adapter = axiosAdapter;
+
+  // -- fetch --
+  const previousFetch = globalThis.fetch;
+
+  globalThis.fetch = async (input: string | URL | Request, init?: RequestInit) => {
+    const request = new Request(input, init);
+    const method = request.method.toUpperCase();
+
+    if (mode === "record") {
+      const res = await previousFetch(input, init);
+      save({
+        method,
+        url: request.url,
+        status: res.status,
+        headers: pickHeaders((name) => res.headers.get(name)),
+        body: parseBody(await res.clone().text()),
+      });
+      return res;
+    }
+
+    const entry = lookup(method, request.url);
+    const noBody = entry.status === 204 || entry.status === 304;
+    return new Response(noBody ? null : serializeBody(entry.body), {
+      status: entry.status,
+      headers: entry.headers,
+    });
+  };
+
+  return {
+    entries: recordings,
+    unrecorded,
+    restore: () => {
+      axios.defaults.adapter = previousAdapter;
+      globalThis.fetch = previousFetch;
+    },
+  };
+}
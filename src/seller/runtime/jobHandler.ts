@@ -0,0 +1,582 @@
+// =============================================================================
+// Job event handling — the per-job logic of the seller runtime.
+//
+// Shared by the seller runtime (seller.ts) and `acp job simulate`, which feeds
+// synthesized job events through the same code path.
+// =============================================================================
+
+import { acceptOrRejectJob, requestPayment, rejectPaidJob, deliverJob } from "./sellerApi.js";
+import { loadOffering, readOfferingConfig } from "./offerings.js";
+import { findEvaluator, loadEvaluator } from "./evaluators.js";
+import { parseJobMemos, parseNegotiation } from "./memos.js";
+import { expectedFunds, verifyFunds } from "./funds.js";
+import { describeQuote, resolveQuote, type AdvisoryQuote } from "./pricing.js";
+import { recordStep, hasStep, findStep, terminalFailure } from "./jobJournal.js";
+import { DeliverableSchemaError, runExecuteJob, runHandler } from "./execution.js";
+import { DeadlineExceededError, slaStartedAt } from "./deadline.js";
+import { addDeadLetter, clearDeadLetters, findDeadLetters } from "./deadLetter.js";
+import { createHandlerContext } from "./handlerContext.js";
+import { bundleAttachments } from "./attachments.js";
+import { offloadDeliverable } from "./artifactStore.js";
+import { checkRequirements } from "./schema.js";
+import { AcpJobPhase, MemoType, type AcpJobEventData } from "./types.js";
+import type {
+  EvaluationResult,
+  ExecuteJobResult,
+  KeyValueStore,
+  ValidationResult,
+} from "./offeringTypes.js";
+import { createLogger, type Logger } from "./logger.js";
+import {
+  jobsAccepted,
+  jobsDelivered,
+  verdictsRecorded,
+  jobsFailed,
+  jobsReceived,
+  jobsRejected,
+} from "./metrics.js";
+
+const log = createLogger("seller");
+
+/** Who the runtime is selling as. */
+export interface SellerContext {
+  agentDirName: string;
+  walletAddress: string;
+  /** Store handed to an offering's handlers; defaults to its file-backed store. */
+  store?: (offering: string) => KeyValueStore;
+  /** When the job event reached the runtime, before it waited in the scheduler queue. */
+  receivedAt?: number;
+}
+
+function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+/**
+ * Journal a failed step. It is terminal — re-sent events and reconciliation
+ * leave the job alone — when the failure left an entry in the dead-letter
+ * store: running the step again would only pile up duplicate entries, and
+ * `acp serve retry` replays it from there.
+ */
+function recordFailure(
+  jobId: number,
+  offering: string | undefined,
+  phase: string,
+  err: unknown
+): void {
+  const terminal = findDeadLetters(jobId).length > 0;
+  recordStep(jobId, "failed", {
+    offering,
+    data: { phase, error: errorMessage(err), ...(terminal ? { terminal } : {}) },
+  });
+}
+
+export function resolveOfferingName(data: AcpJobEventData): string | undefined {
+  return parseNegotiation(data.memos)?.name;
+}
+
+export function resolveServiceRequirements(data: AcpJobEventData): Record<string, any> {
+  return parseNegotiation(data.memos)?.requirement ?? {};
+}
+
+/**
+ * The provider's deliverable: the memo that moved the job to EVALUATION (or
+ * the latest OBJECT_URL memo), parsed as JSON when it is JSON.
+ */
+export function resolveDeliverable(data: AcpJobEventData): unknown {
+  const memo =
+    [...data.memos].reverse().find((m) => m.nextPhase === AcpJobPhase.EVALUATION) ??
+    [...data.memos].reverse().find((m) => m.memoType === MemoType.OBJECT_URL);
+  if (!memo) return undefined;
+  try {
+    return JSON.parse(memo.content);
+  } catch {
+    return memo.content;
+  }
+}
+
+/**
+ * Requirements as coerced by the offering's schema (e.g. "5" → 5), so
+ * executeJob sees the same values validateRequirements did. Falls back to the
+ * raw values if they no longer pass (the schema changed after acceptance).
+ */
+function coercedRequirements(
+  offeringName: string,
+  requirements: Record<string, any>,
+  agentDirName: string
+): Record<string, any> {
+  const config = readOfferingConfig(offeringName, agentDirName);
+  const checked = checkRequirements(config?.requirement, requirements);
+  if (checked.valid) return checked.value;
+  log.warn(
+    `Requirements for "${offeringName}" no longer match its schema: ${checked.errors.join("; ")}`,
+    { offering: offeringName }
+  );
+  return requirements;
+}
+
+/**
+ * Handle a job event pushed by ACP (or found by reconciliation): accept or
+ * reject and request payment in REQUEST, execute and deliver in TRANSACTION.
+ * Every completed step is journaled so a re-sent event resumes where it left off.
+ */
+export async function handleNewTask(data: AcpJobEventData, seller: SellerContext): Promise<void> {
+  const jobId = data.id;
+  const { agentDirName } = seller;
+
+  const phase = AcpJobPhase[data.phase] ?? String(data.phase);
+  const jobLog = log.child({ jobId, offering: resolveOfferingName(data), phase });
+  jobsReceived.inc({ offering: resolveOfferingName(data) ?? "(unresolved)", phase });
+  jobLog.info(`New task  jobId=${jobId}  phase=${AcpJobPhase[data.phase] ?? data.phase}`, {
+    client: data.clientAddress,
+    price: data.price,
+    context: data.context,
+  });
+
+  const stopped = terminalFailure(jobId);
+  if (stopped) {
+    jobLog.info(
+      `Job ${jobId} — failed at ${stopped.data?.phase ?? "an earlier step"} and is in the dead-letter store, skipping (run \`acp serve retry ${jobId}\`)`
+    );
+    return;
+  }
+
+  // Jobs this agent was named evaluator for (onEvaluate)
+  if (
+    data.phase === AcpJobPhase.EVALUATION &&
+    data.evaluatorAddress &&
+    data.evaluatorAddress.toLowerCase() === seller.walletAddress.toLowerCase()
+  ) {
+    await handleEvaluation(data, seller);
+    return;
+  }
+
+  // Step 1: Accept / reject
+  if (data.phase === AcpJobPhase.REQUEST) {
+    if (!data.memoToSign) {
+      return;
+    }
+
+    const negotiationMemo = data.memos.find((m) => m.id == Number(data.memoToSign));
+
+    if (negotiationMemo?.nextPhase !== AcpJobPhase.NEGOTIATION) {
+      return;
+    }
+
+    if (hasStep(jobId, "rejected") || hasStep(jobId, "payment_requested")) {
+      jobLog.info(`Job ${jobId} — request already handled (journal), skipping`);
+      return;
+    }
+
+    const offeringName = resolveOfferingName(data);
+    const rawRequirements = resolveServiceRequirements(data);
+
+    if (!offeringName) {
+      await acceptOrRejectJob(jobId, {
+        accept: false,
+        reason: "Invalid offering name",
+      });
+      recordStep(jobId, "rejected", { data: { reason: "Invalid offering name" } });
+      jobsRejected.inc({ offering: "(unresolved)" });
+      return;
+    }
+
+    const ctx = createHandlerContext({
+      job: data,
+      offering: offeringName,
+      agentDirName,
+      walletAddress: seller.walletAddress,
+      store: seller.store?.(offeringName),
+    });
+
+    try {
+      const { config, handlers, version } = await loadOffering(offeringName, agentDirName);
+      jobLog.info(`Job ${jobId} — offering "${offeringName}" version ${version}`, { version });
+
+      // Check against offering.json's requirement schema before any custom handler runs
+      const checked = checkRequirements(config.requirement, rawRequirements);
+      if (!checked.valid) {
+        const rejectionReason = `Invalid requirements: ${checked.errors.join("; ")}`;
+        jobLog.info(`Job ${jobId} — ${rejectionReason}`);
+        await acceptOrRejectJob(
+          jobId,
+          { accept: false, reason: rejectionReason },
+          { offering: offeringName, requirements: rawRequirements }
+        );
+        recordStep(jobId, "rejected", {
+          offering: offeringName,
+          data: { reason: rejectionReason },
+        });
+        jobsRejected.inc({ offering: offeringName });
+        return;
+      }
+      const requirements = checked.value;
+      const meta = { offering: offeringName, requirements };
+
+      let quote: AdvisoryQuote | undefined;
+      const accepted = findStep(jobId, "accepted");
+      if (accepted) {
+        jobLog.info(`Job ${jobId} — already accepted (journal), resuming at payment request`);
+        quote = accepted.data?.advisoryQuote;
+      } else {
+        const validate = handlers.validateRequirements;
+        if (validate) {
+          let validationResult: ValidationResult;
+          try {
+            validationResult = await runHandler("validateRequirements", ctx, (c) =>
+              validate(requirements, c)
+            );
+          } catch (err) {
+            if (!(err instanceof DeadlineExceededError)) throw err;
+            jobLog.error(`Job ${jobId} — ${err.message}`);
+            validationResult = { valid: false, reason: "Request validation timed out" };
+          }
+
+          let isValid: boolean;
+          let reason: string | undefined;
+
+          if (typeof validationResult === "boolean") {
+            isValid = validationResult;
+            reason = isValid ? undefined : "Validation failed";
+          } else {
+            isValid = validationResult.valid;
+            reason = validationResult.reason;
+          }
+
+          if (!isValid) {
+            const rejectionReason = reason || "Validation failed";
+            jobLog.info(
+              `Validation failed for offering "${offeringName}" — rejecting: ${rejectionReason}`
+            );
+            await acceptOrRejectJob(
+              jobId,
+              {
+                accept: false,
+                reason: rejectionReason,
+              },
+              meta
+            );
+            recordStep(jobId, "rejected", {
+              offering: offeringName,
+              data: { reason: rejectionReason },
+            });
+            jobsRejected.inc({ offering: offeringName });
+            return;
+          }
+        }
+
+        // Priced before accepting, so a request that cannot be priced is rejected, not stranded
+        const quotePrice = handlers.quotePrice;
+        if (quotePrice) {
+          try {
+            quote = resolveQuote(
+              await runHandler("quotePrice", ctx, (c) => quotePrice(requirements, c)),
+              data.price || config.jobFee
+            );
+          } catch (err) {
+            const rejectionReason = `Could not price the request: ${errorMessage(err)}`;
+            jobLog.error(`Job ${jobId} — ${rejectionReason} — rejecting`);
+            await acceptOrRejectJob(jobId, { accept: false, reason: rejectionReason }, meta);
+            recordStep(jobId, "rejected", {
+              offering: offeringName,
+              data: { reason: rejectionReason },
+            });
+            jobsRejected.inc({ offering: offeringName });
+            return;
+          }
+          jobLog.info(`Job ${jobId} — ${describeQuote(quote)}`, { advisoryQuote: quote });
+        }
+
+        await acceptOrRejectJob(
+          jobId,
+          {
+            accept: true,
+            reason: "Job accepted",
+          },
+          meta
+        );
+        recordStep(jobId, "accepted", {
+          offering: offeringName,
+          data: { version, ...(quote ? { advisoryQuote: quote } : {}) },
+        });
+        jobsAccepted.inc({ offering: offeringName });
+      }
+
+      const requestFunds = config.requiredFunds ? handlers.requestAdditionalFunds : undefined;
+      const funds = requestFunds
+        ? await runHandler("requestAdditionalFunds", ctx, (c) => requestFunds(requirements, c))
+        : undefined;
+
+      const paymentMessage = handlers.requestPayment;
+      const paymentReason = paymentMessage
+        ? await runHandler("requestPayment", ctx, (c) => paymentMessage(requirements, c))
+        : (funds?.content ?? "Request accepted");
+
+      const content = quote ? `${paymentReason}\n\n${describeQuote(quote)}` : paymentReason;
+
+      const payableDetail = funds
+        ? {
+            amount: funds.amount,
+            tokenAddress: funds.tokenAddress,
+            recipient: funds.recipient,
+          }
+        : undefined;
+
+      await requestPayment(
+        jobId,
+        {
+          content,
+          payableDetail,
+        },
+        meta
+      );
+      recordStep(jobId, "payment_requested", {
+        offering: offeringName,
+        data: {
+          content,
+          payableDetail,
+          ...(quote ? { advisoryQuote: quote } : {}),
+        },
+      });
+    } catch (err) {
+      jobLog.error(`Error processing job ${jobId}`, { error: err });
+      recordFailure(jobId, offeringName, "request", err);
+      jobsFailed.inc({ offering: offeringName ?? "(unresolved)", stage: "request" });
+    }
+  }
+
+  // Handle TRANSACTION (deliver)
+  if (data.phase === AcpJobPhase.TRANSACTION) {
+    const offeringName = resolveOfferingName(data);
+
+    if (hasStep(jobId, "delivered")) {
+      jobLog.info(`Job ${jobId} — already delivered (journal), skipping`);
+      return;
+    }
+
+    if (offeringName) {
+      const requirements = coercedRequirements(
+        offeringName,
+        resolveServiceRequirements(data),
+        agentDirName
+      );
+      const meta = { offering: offeringName, requirements };
+
+      // Reuse a handler result recorded before a crash instead of re-running the job
+      const executed = findStep(jobId, "executed");
+      let result: ExecuteJobResult;
+      if (executed?.data) {
+        jobLog.info(`Job ${jobId} — already executed (journal), resuming at delivery`);
+        result = executed.data as ExecuteJobResult;
+      } else {
+        if (!(await confirmAdditionalFunds(data, meta, seller, jobLog))) return;
+        let version: string;
+        try {
+          const offering = await loadOffering(offeringName, agentDirName);
+          version = offering.version;
+          const ctx = createHandlerContext({
+            job: data,
+            offering: offeringName,
+            agentDirName,
+            walletAddress: seller.walletAddress,
+            store: seller.store?.(offeringName),
+          });
+          result = await runExecuteJob(
+            offering,
+            requirements,
+            ctx,
+            slaStartedAt(data.memos, seller.receivedAt ?? Date.now())
+          );
+        } catch (err) {
+          if (err instanceof DeliverableSchemaError) {
+            jobLog.error(`${err.message} — not delivering`);
+          } else {
+            jobLog.error(`Handler failed for job ${jobId}`, { error: err });
+          }
+          const entry = addDeadLetter({
+            jobId,
+            action: "execute",
+            params: {},
+            ...meta,
+            ...(err instanceof DeliverableSchemaError ? { deliverable: err.deliverable } : {}),
+            error: errorMessage(err),
+            attempts: 1,
+          });
+          jobLog.error(`Job ${jobId} — moved to dead-letter store (${entry.id})`);
+          recordFailure(jobId, offeringName, "execute", err);
+          jobsFailed.inc({ offering: offeringName, stage: "execute" });
+          return;
+        }
+        clearDeadLetters(jobId, "execute");
+        recordStep(jobId, "executed", {
+          offering: offeringName,
+          data: {
+            deliverable: result.deliverable,
+            payableDetail: result.payableDetail,
+            attachments: result.attachments,
+            version,
+          },
+        });
+      }
+
+      try {
+        const { deliverable } = await offloadDeliverable(jobId, bundleAttachments(result));
+        await deliverJob(jobId, { deliverable, payableDetail: result.payableDetail }, meta);
+        recordStep(jobId, "delivered", { offering: offeringName });
+        jobsDelivered.inc({ offering: offeringName });
+        jobLog.info(`Job ${jobId} — delivered.`);
+      } catch (err) {
+        jobLog.error(`Error delivering job ${jobId}`, { error: err });
+        recordFailure(jobId, offeringName, "deliver", err);
+        jobsFailed.inc({ offering: offeringName, stage: "deliver" });
+      }
+    } else {
+      jobLog.info(`Job ${jobId} in TRANSACTION but no offering resolved — skipping`);
+    }
+    return;
+  }
+
+  jobLog.info(`Job ${jobId} in phase ${AcpJobPhase[data.phase] ?? data.phase} — no action needed`);
+}
+
+/**
+ * For `requiredFunds` offerings, check that the transfer requested with the
+ * payment request arrived before the job is executed. A missing or short
+ * transfer rejects the job with the amounts in the reason; whatever part of
+ * it did arrive is recorded as a "refund" dead letter to return to the buyer.
+ * Returns whether execution may go ahead. Also used by `acp serve retry
+ * --execute`, so a handler is never re-run by hand for an unpaid job.
+ */
+export async function confirmAdditionalFunds(
+  data: AcpJobEventData,
+  meta: { offering: string; requirements: Record<string, any> },
+  seller: SellerContext,
+  jobLog: Logger = log.child({ jobId: data.id, offering: meta.offering, phase: "TRANSACTION" })
+): Promise<boolean> {
+  const jobId = data.id;
+  const offering = meta.offering;
+  if (!readOfferingConfig(offering, seller.agentDirName)?.requiredFunds) return true;
+
+  const memos = parseJobMemos(data.memos, seller.walletAddress);
+  const expected = expectedFunds(jobId, memos);
+  if (!expected) {
+    jobLog.warn(`Job ${jobId} — offering requires funds but none were requested; executing`);
+    return true;
+  }
+
+  const check = verifyFunds(expected, memos);
+  if (check.ok) {
+    jobLog.info(
+      `Job ${jobId} — additional funds confirmed: ${check.received} of ${expected.amount} required`
+    );
+    return true;
+  }
+
+  const reason = check.reason!;
+  jobLog.warn(`Job ${jobId} — ${reason} — rejecting without executing`, {
+    expected,
+    received: check.received,
+  });
+  if (check.received > 0) {
+    // Kept in the dead-letter store until someone returns it
+    const refund = {
+      recipient: data.clientAddress,
+      amount: check.received,
+      tokenAddress: expected.tokenAddress,
+    };
+    const entry = addDeadLetter({
+      jobId,
+      action: "refund",
+      params: refund,
+      ...meta,
+      error: `${refund.amount} of token ${refund.tokenAddress} received for a rejected job — return it to ${refund.recipient}`,
+      attempts: 1,
+    });
+    jobLog.error(`Job ${jobId} — ${entry.error} (dead-letter ${entry.id})`, { refund });
+  }
+  try {
+    await rejectPaidJob(jobId, reason, meta);
+    recordStep(jobId, "rejected", {
+      offering,
+      data: { reason, expected, received: check.received },
+    });
+    jobsRejected.inc({ offering });
+  } catch (err) {
+    jobLog.error(`Error rejecting job ${jobId}`, { error: err });
+    recordFailure(jobId, offering, "funds", err);
+    jobsFailed.inc({ offering, stage: "funds" });
+  }
+  return false;
+}
+
+/**
+ * Judge a delivered job with the matching evaluator and record the verdict.
+ * The ACP API has no endpoint for submitting verdicts yet, so the verdict is
+ * journaled and logged but not sent. Without an evaluator for the job's
+ * offering the job is left for ACP to resolve.
+ */
+async function handleEvaluation(data: AcpJobEventData, seller: SellerContext): Promise<void> {
+  const jobId = data.id;
+  const offeringName = resolveOfferingName(data);
+  const jobLog = log.child({ jobId, offering: offeringName, phase: "EVALUATION" });
+
+  if (hasStep(jobId, "evaluated")) {
+    jobLog.info(`Job ${jobId} — already evaluated (journal), skipping`);
+    return;
+  }
+
+  const evaluatorName = findEvaluator(offeringName, seller.agentDirName);
+  if (!evaluatorName) {
+    jobLog.warn(
+      `Job ${jobId} — no evaluator for "${offeringName ?? "(unresolved)"}" and no default evaluator; not evaluating`
+    );
+    return;
+  }
+
+  const offering = offeringName ?? "(unresolved)";
+  const requirements = resolveServiceRequirements(data);
+  let verdict: { approve: boolean; reason: string };
+  let version: string;
+  try {
+    const evaluator = await loadEvaluator(evaluatorName, seller.agentDirName);
+    version = evaluator.version;
+    jobLog.info(`Job ${jobId} — evaluating with "${evaluatorName}" (version ${version})`, {
+      evaluator: evaluatorName,
+      version,
+    });
+    const ctx = createHandlerContext({
+      job: data,
+      offering,
+      agentDirName: seller.agentDirName,
+      walletAddress: seller.walletAddress,
+      store: seller.store?.(`evaluators/${evaluatorName}`),
+      storeName: `evaluators/${evaluatorName}`,
+    });
+    const result: EvaluationResult = await runHandler("evaluate", ctx, (c) =>
+      evaluator.handlers.evaluate(
+        { offering, requirements, deliverable: resolveDeliverable(data) },
+        c
+      )
+    );
+    const approve = typeof result === "boolean" ? result : result.approve === true;
+    const reason = typeof result === "boolean" ? undefined : result.reason;
+    verdict = {
+      approve,
+      reason: reason || (approve ? "Deliverable approved" : "Deliverable rejected"),
+    };
+  } catch (err) {
+    jobLog.error(`Evaluator "${evaluatorName}" failed for job ${jobId}`, { error: err });
+    recordFailure(jobId, offering, "evaluate", err);
+    jobsFailed.inc({ offering, stage: "evaluate" });
+    return;
+  }
+
+  recordStep(jobId, "evaluated", {
+    offering,
+    data: { ...verdict, evaluator: evaluatorName, version, submitted: false },
+  });
+  verdictsRecorded.inc({ offering, verdict: verdict.approve ? "approved" : "rejected" });
+  jobLog.info(
+    `Job ${jobId} — ${verdict.approve ? "approved" : "rejected"}: ${verdict.reason} (recorded; not submitted — ACP has no evaluator endpoint)`
+  );
+}
@@ -0,0 +1,211 @@
+// =============================================================================
+// Durable job journal — append-only record of each job's progress.
+//
+// Every step the runtime completes for a job (accept, payment request, handler
+// result, delivery) is appended to logs/job-journal.jsonl before moving on. On
+// startup the journal is replayed so a restarted seller resumes each job at the
+// step it reached and never re-sends a completed delivery.
+// =============================================================================
+
+import * as fs from "fs";
+import * as path from "path";
+import { LOGS_DIR } from "../../lib/config.js";
+
+export const JOB_JOURNAL_PATH = path.resolve(LOGS_DIR, "job-journal.jsonl");
+
+/** Terminal jobs older than this are dropped when the journal is compacted on startup. */
+const RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+export type JournalStep =
+  | "accepted"
+  | "rejected"
+  | "payment_requested"
+  | "executed"
+  | "delivered"
+  | "evaluated"
+  | "failed";
+
+/**
+ * Steps after which the runtime has nothing left to do for a job. A "failed"
+ * step is terminal too while it is the job's latest step and carries
+ * `terminal: true` — the failure is in the dead-letter store and waits for
+ * `acp serve retry`, which journals the steps it replays after it.
+ */
+const TERMINAL_STEPS: ReadonlySet<JournalStep> = new Set(["rejected", "delivered", "evaluated"]);
+
+export interface JournalEntry {
+  jobId: number;
+  step: JournalStep;
+  at: string;
+  offering?: string;
+  /** Step-specific payload (e.g. the handler result for "executed"). */
+  data?: Record<string, any>;
+}
+
+export interface JobRecord {
+  jobId: number;
+  offering?: string;
+  steps: JournalEntry[];
+  updatedAt: string;
+}
+
+const jobs = new Map<number, JobRecord>();
+/** Bytes of the journal file already applied to `jobs`. */
+let offset = 0;
+/** False once useInMemoryJournal() is called: nothing is read from or written to disk. */
+let persistent = true;
+
+/**
+ * Keep the journal in memory only, starting empty. For `acp job simulate`, so
+ * simulated jobs never show up in (or resume from) the real seller's journal.
+ */
+export function useInMemoryJournal(): void {
+  persistent = false;
+  jobs.clear();
+  offset = 0;
+}
+
+function apply(entry: JournalEntry): void {
+  const record = jobs.get(entry.jobId) ?? { jobId: entry.jobId, steps: [], updatedAt: entry.at };
+  record.offering = entry.offering ?? record.offering;
+  record.steps.push(entry);
+  record.updatedAt = entry.at;
+  jobs.set(entry.jobId, record);
+}
+
+function isTerminalFailure(entry: JournalEntry | undefined): boolean {
+  return entry?.step === "failed" && entry.data?.terminal === true;
+}
+
+function isTerminal(record: JobRecord): boolean {
+  return (
+    record.steps.some((s) => TERMINAL_STEPS.has(s.step)) ||
+    isTerminalFailure(record.steps[record.steps.length - 1])
+  );
+}
+
+/**
+ * Apply entries appended since the last read — by this process or another one
+ * (e.g. `acp serve retry` recording a delivery while the seller runs).
+ */
+function refresh(): void {
+  if (!persistent || !fs.existsSync(JOB_JOURNAL_PATH)) return;
+  const size = fs.statSync(JOB_JOURNAL_PATH).size;
+  if (size < offset) {
+    // Rewritten by compaction elsewhere — start over
+    jobs.clear();
+    offset = 0;
+  }
+  if (size === offset) return;
+
+  const fd = fs.openSync(JOB_JOURNAL_PATH, "r");
+  let chunk: string;
+  try {
+    const buf = Buffer.alloc(size - offset);
+    fs.readSync(fd, buf, 0, buf.length, offset);
+    chunk = buf.toString("utf-8");
+  } finally {
+    fs.closeSync(fd);
+  }
+
+  // Only consume complete lines; a line still being written is picked up next time
+  const end = chunk.lastIndexOf("\n");
+  if (end === -1) return;
+  for (const line of chunk.slice(0, end).split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      apply(JSON.parse(line));
+    } catch {
+      // A crash mid-write can leave a truncated line — skip it
+    }
+  }
+  offset += Buffer.byteLength(chunk.slice(0, end + 1), "utf-8");
+}
+
+/**
+ * Load the journal from disk into memory. Safe to call once at startup.
+ * Drops old terminal jobs and rewrites the file if anything was pruned.
+ */
+export function replayJournal(): JobRecord[] {
+  jobs.clear();
+  offset = 0;
+  refresh();
+
+  const cutoff = Date.now() - RETENTION_MS;
+  const expired = [...jobs.values()].filter(
+    (r) => isTerminal(r) && Date.parse(r.updatedAt) < cutoff
+  );
+  if (expired.length > 0) {
+    for (const r of expired) jobs.delete(r.jobId);
+    const kept = [...jobs.values()].flatMap((r) => r.steps.map((s) => JSON.stringify(s) + "\n"));
+    const tmpPath = `${JOB_JOURNAL_PATH}.tmp`;
+    fs.writeFileSync(tmpPath, kept.join(""));
+    fs.renameSync(tmpPath, JOB_JOURNAL_PATH);
+    offset = fs.statSync(JOB_JOURNAL_PATH).size;
+  }
+
+  return [...jobs.values()];
+}
+
+/** Append a step for a job and flush it to disk before returning. */
+export function recordStep(
+  jobId: number,
+  step: JournalStep,
+  opts: { offering?: string; data?: Record<string, any> } = {}
+): void {
+  const entry: JournalEntry = {
+    jobId,
+    step,
+    at: new Date().toISOString(),
+    ...(opts.offering ? { offering: opts.offering } : {}),
+    ...(opts.data ? { data: opts.data } : {}),
+  };
+
+  if (!persistent) {
+    apply(entry);
+    return;
+  }
+
+  fs.mkdirSync(LOGS_DIR, { recursive: true });
+  const fd = fs.openSync(JOB_JOURNAL_PATH, "a");
+  try {
+    fs.writeSync(fd, JSON.stringify(entry) + "\n");
+    fs.fsyncSync(fd);
+  } finally {
+    fs.closeSync(fd);
+  }
+  refresh();
+}
+
+export function getJobRecord(jobId: number): JobRecord | undefined {
+  refresh();
+  return jobs.get(jobId);
+}
+
+/** The most recent entry for `step`, if the job has reached it. */
+export function findStep(jobId: number, step: JournalStep): JournalEntry | undefined {
+  refresh();
+  const steps = jobs.get(jobId)?.steps ?? [];
+  for (let i = steps.length - 1; i >= 0; i--) {
+    if (steps[i].step === step) return steps[i];
+  }
+  return undefined;
+}
+
+export function hasStep(jobId: number, step: JournalStep): boolean {
+  return findStep(jobId, step) !== undefined;
+}
+
+/** The job's latest step, if it is a terminal failure left for `acp serve retry`. */
+export function terminalFailure(jobId: number): JournalEntry | undefined {
+  refresh();
+  const steps = jobs.get(jobId)?.steps ?? [];
+  const last = steps[steps.length - 1];
+  return isTerminalFailure(last) ? last : undefined;
+}
+
+/** Jobs the runtime started but has not finished (no rejection, delivery or terminal failure yet). */
+export function pendingJobs(): JobRecord[] {
+  refresh();
+  return [...jobs.values()].filter((r) => !isTerminal(r));
+}
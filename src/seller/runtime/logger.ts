@@ -0,0 +1,268 @@
+// =============================================================================
+// Structured logging for the seller runtime.
+//
+// Every log line is a LogEntry: time, level, source and message, plus job
+// fields (jobId, offering, phase, durationMs) when the line is about a job.
+// The seller process writes entries as JSON lines to logs/seller.log and
+// rotates the file once it reaches a size limit; `acp serve logs` reads them
+// back and filters on the fields. Other processes that run seller code
+// (`acp sell test`, `acp job simulate`, `acp serve retry --execute`) keep the
+// default console output, "[source] message".
+// =============================================================================
+
+import * as fs from "fs";
+import * as path from "path";
+import { format } from "util";
+import { LOGS_DIR } from "../../lib/config.js";
+
+export const SELLER_LOG_PATH = path.resolve(LOGS_DIR, "seller.log");
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+export const LOG_LEVELS: LogLevel[] = ["debug", "info", "warn", "error"];
+
+export interface LogFields {
+  jobId?: number;
+  offering?: string;
+  /** Job phase name, e.g. "REQUEST" or "TRANSACTION". */
+  phase?: string;
+  durationMs?: number;
+  /** Recorded as the error's message (and stack, for Errors). */
+  error?: unknown;
+  [key: string]: unknown;
+}
+
+export interface LogEntry {
+  time: string;
+  level: LogLevel;
+  /** Component that wrote the line ("seller", "socket", "sellerApi", an offering name, ...). */
+  source: string;
+  msg: string;
+  jobId?: number;
+  offering?: string;
+  phase?: string;
+  durationMs?: number;
+  error?: string;
+  stack?: string;
+  [key: string]: unknown;
+}
+
+export interface Logger {
+  debug(msg: string, fields?: LogFields): void;
+  info(msg: string, fields?: LogFields): void;
+  warn(msg: string, fields?: LogFields): void;
+  error(msg: string, fields?: LogFields): void;
+  /** A logger that adds `fields` to every entry it writes. */
+  child(fields: LogFields): Logger;
+}
+
+export interface LogFileOptions {
+  path: string;
+  /** Rotate once the file would grow past this many bytes. */
+  maxBytes: number;
+  /** Rotated files to keep (seller.log.1 is the newest). */
+  maxFiles: number;
+}
+
+export interface LoggingOptions {
+  /** Write JSON lines to a rotated file. */
+  file?: LogFileOptions;
+  /** "pretty" prints "[source] message"; "json" prints the JSON line. */
+  console?: "pretty" | "json" | false;
+  /** Entries below this level are dropped. */
+  level?: LogLevel;
+}
+
+let settings: Required<Omit<LoggingOptions, "file">> = { console: "pretty", level: "info" };
+let writeFile: ((line: string) => void) | undefined;
+/** The real console methods, once captureConsole() has rerouted `console`. */
+let rawConsole: Pick<Console, "log" | "warn" | "error"> | undefined;
+
+// -- Sinks --
+
+function createFileSink(opts: LogFileOptions): (line: string) => void {
+  let fd: number | undefined;
+  let size = 0;
+
+  const open = () => {
+    fs.mkdirSync(path.dirname(opts.path), { recursive: true });
+    fd = fs.openSync(opts.path, "a");
+    size = fs.fstatSync(fd).size;
+  };
+
+  const rotate = () => {
+    fs.closeSync(fd!);
+    fd = undefined;
+    if (opts.maxFiles < 1) {
+      fs.unlinkSync(opts.path);
+      return;
+    }
+    for (let i = opts.maxFiles - 1; i >= 1; i--) {
+      const from = `${opts.path}.${i}`;
+      if (fs.existsSync(from)) fs.renameSync(from, `${opts.path}.${i + 1}`);
+    }
+    fs.renameSync(opts.path, `${opts.path}.1`);
+  };
+
+  return (line) => {
+    try {
+      if (fd === undefined) open();
+      const bytes = Buffer.byteLength(line);
+      if (size > 0 && size + bytes > opts.maxBytes) {
+        rotate();
+        open();
+      }
+      fs.writeSync(fd!, line);
+      size += bytes;
+    } catch {
+      // Logging must never break the runtime
+    }
+  };
+}
+
+/** "[source] message: error" — the console format, also used by `acp serve logs`. */
+export function formatMessage(entry: LogEntry): string {
+  return `[${entry.source}] ${entry.msg}${entry.error ? `: ${entry.error}` : ""}`;
+}
+
+/** "2025-01-31 12:00:00.000  INFO  [source] message (120ms)" — one entry in `acp serve logs`. */
+export function formatLogLine(entry: LogEntry): string {
+  const time = entry.time.replace("T", " ").replace(/Z$/, "");
+  const duration = entry.durationMs !== undefined ? ` (${entry.durationMs}ms)` : "";
+  return `${time}  ${entry.level.toUpperCase().padEnd(5)} ${formatMessage(entry)}${duration}`;
+}
+
+function writeConsole(entry: LogEntry): void {
+  if (settings.console === "json") {
+    const stream = entry.level === "error" || entry.level === "warn" ? "stderr" : "stdout";
+    process[stream].write(JSON.stringify(entry) + "\n");
+    return;
+  }
+  const out = rawConsole ?? console;
+  const line = formatMessage(entry);
+  if (entry.level === "error") out.error(line);
+  else if (entry.level === "warn") out.warn(line);
+  else out.log(line);
+  if (entry.stack && entry.level === "error") out.error(entry.stack);
+}
+
+function write(level: LogLevel, source: string, msg: string, fields: LogFields): void {
+  if (LOG_LEVELS.indexOf(level) < LOG_LEVELS.indexOf(settings.level)) return;
+
+  const { error, ...rest } = fields;
+  const entry: LogEntry = { time: new Date().toISOString(), level, source, msg, ...rest };
+  if (error !== undefined) {
+    entry.error = error instanceof Error ? error.message : String(error);
+    if (error instanceof Error && error.stack) entry.stack = error.stack;
+  }
+
+  writeFile?.(JSON.stringify(entry) + "\n");
+  if (settings.console) writeConsole(entry);
+}
+
+// -- Public API --
+
+export function createLogger(source: string, fields: LogFields = {}): Logger {
+  const at =
+    (level: LogLevel) =>
+    (msg: string, extra: LogFields = {}) =>
+      write(level, source, msg, { ...fields, ...extra });
+  return {
+    debug: at("debug"),
+    info: at("info"),
+    warn: at("warn"),
+    error: at("error"),
+    child: (more) => createLogger(source, { ...fields, ...more }),
+  };
+}
+
+/** Where log entries go. The defaults print "[source] message" to the console. */
+export function configureLogging(opts: LoggingOptions): void {
+  settings = { console: opts.console ?? "pretty", level: opts.level ?? "info" };
+  writeFile = opts.file ? createFileSink(opts.file) : undefined;
+}
+
+/**
+ * Route console.log/info/debug/warn/error through the logger (source
+ * "console"), so output from handlers and libraries that print directly still
+ * ends up in the structured log.
+ */
+export function captureConsole(): void {
+  if (rawConsole) return;
+  rawConsole = { log: console.log, warn: console.warn, error: console.error };
+  const log = createLogger("console");
+  console.log = (...args: unknown[]) => log.info(format(...args));
+  console.info = console.log;
+  console.debug = (...args: unknown[]) => log.debug(format(...args));
+  console.warn = (...args: unknown[]) => log.warn(format(...args));
+  console.error = (...args: unknown[]) => log.error(format(...args));
+}
+
+export function parseLogLevel(value: string | undefined): LogLevel | undefined {
+  const level = value?.toLowerCase() as LogLevel | undefined;
+  return level && LOG_LEVELS.includes(level) ? level : undefined;
+}
+
+// -- Reading --
+
+export interface LogQuery {
+  offering?: string;
+  jobId?: number;
+  /** Minimum level. */
+  level?: LogLevel;
+  since?: Date;
+  until?: Date;
+}
+
+/** Parse one line of seller.log. Returns undefined for lines that are not log entries. */
+export function parseLogLine(line: string): LogEntry | undefined {
+  if (!line.startsWith("{")) return undefined;
+  try {
+    const entry = JSON.parse(line);
+    return entry && typeof entry.time === "string" && typeof entry.msg === "string"
+      ? (entry as LogEntry)
+      : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+export function matchesLogQuery(entry: LogEntry, query: LogQuery): boolean {
+  if (query.offering && entry.offering !== query.offering) return false;
+  if (query.jobId !== undefined && entry.jobId !== query.jobId) return false;
+  if (query.level && LOG_LEVELS.indexOf(entry.level) < LOG_LEVELS.indexOf(query.level)) {
+    return false;
+  }
+  const time = Date.parse(entry.time);
+  if (query.since && !(time >= query.since.getTime())) return false;
+  if (query.until && !(time <= query.until.getTime())) return false;
+  return true;
+}
+
+/**
+ * The last `limit` entries matching `query`, oldest first, read from the log
+ * file and its rotated predecessors (newest file first, stopping once enough
+ * entries were found).
+ */
+export function readLogEntries(
+  query: LogQuery,
+  limit: number,
+  filePath: string = SELLER_LOG_PATH
+): LogEntry[] {
+  const found: LogEntry[] = [];
+  for (let i = 0; found.length < limit; i++) {
+    const file = i === 0 ? filePath : `${filePath}.${i}`;
+    if (!fs.existsSync(file)) break;
+    const lines = fs.readFileSync(file, "utf-8").split("\n");
+    let oldest: LogEntry | undefined;
+    for (let j = lines.length - 1; j >= 0 && found.length < limit; j--) {
+      const entry = parseLogLine(lines[j]);
+      if (!entry) continue;
+      oldest = entry;
+      if (matchesLogQuery(entry, query)) found.push(entry);
+    }
+    // This file already reaches back past --since; older files cannot match
+    if (query.since && oldest && Date.parse(oldest.time) < query.since.getTime()) break;
+  }
+  return found.reverse();
+}
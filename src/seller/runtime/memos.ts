@@ -0,0 +1,217 @@
+// =============================================================================
+// Typed view of a job's memos.
+//
+// ACP memos carry their payload as a string whose meaning depends on the memo
+// type: JSON for the negotiation memo, a URL for attachments, a hash for
+// TXHASH, payable details for the PAYABLE_* types. parseJobMemos() turns the
+// raw memos into tagged objects, handed to handlers as `ctx.parsedMemos`.
+// =============================================================================
+
+import { AcpJobPhase, MemoType, type AcpMemoData } from "./types.js";
+
+interface MemoBase {
+  id: number;
+  memoType: MemoType;
+  nextPhase: AcpJobPhase;
+  createdAt?: string;
+  /** The memo content exactly as received. */
+  content: string;
+}
+
+/** MESSAGE memo: free text, with the parsed value when the text is JSON. */
+export interface MessageMemo extends MemoBase {
+  kind: "message";
+  text: string;
+  json?: unknown;
+}
+
+export type AttachmentMedia = "context" | "image" | "voice" | "object";
+
+/** CONTEXT_URL, IMAGE_URL, VOICE_URL or OBJECT_URL memo. */
+export interface AttachmentMemo extends MemoBase {
+  kind: "attachment";
+  media: AttachmentMedia;
+  /** The http(s) URL, when the content is one (or a JSON object with a `url`). */
+  url?: string;
+  /** File name or MIME type, when the content is a JSON object that has them. */
+  name?: string;
+  mimeType?: string;
+  /** Parsed content when it is JSON (e.g. a deliverable sent as an OBJECT_URL memo). */
+  json?: unknown;
+}
+
+/** TXHASH memo: a transaction hash the buyer (or provider) posted. */
+export interface TxHashMemo extends MemoBase {
+  kind: "txHash";
+  /** Undefined when the content is not a 0x-prefixed 32-byte hash. */
+  txHash?: string;
+}
+
+/** PAYABLE_REQUEST, PAYABLE_TRANSFER, PAYABLE_FEE or PAYABLE_FEE_REQUEST memo. */
+export interface PayableMemo extends MemoBase {
+  kind: "payableRequest" | "payableTransfer" | "payableFee" | "payableFeeRequest";
+  amount?: number;
+  tokenAddress?: string;
+  recipient?: string;
+  txHash?: string;
+}
+
+export type ParsedMemo = MessageMemo | AttachmentMemo | TxHashMemo | PayableMemo;
+
+/** The buyer's request, from the memo that moved the job to NEGOTIATION. */
+export interface NegotiationTerms {
+  /** Offering name. */
+  name?: string;
+  requirement: Record<string, any>;
+}
+
+export interface JobMemos {
+  /** Every memo, oldest first. */
+  all: ParsedMemo[];
+  negotiation?: NegotiationTerms;
+  /** Attachments that carry a URL (files and links sent with the job). */
+  attachments: AttachmentMemo[];
+  /** Valid transaction hashes from TXHASH memos. */
+  txHashes: string[];
+  /** PAYABLE_TRANSFER memos — funds the buyer has sent. */
+  transfers: PayableMemo[];
+  /**
+   * Sum of the `transfers` in `tokenAddress` to the agent's own wallet (both
+   * compared case-insensitively), to check that the buyer's funds actually
+   * arrived before acting on them. Transfers to any other address, or without
+   * a recipient, are not counted.
+   */
+  transferred(tokenAddress: string): number;
+}
+
+const MEDIA: Partial<Record<MemoType, AttachmentMedia>> = {
+  [MemoType.CONTEXT_URL]: "context",
+  [MemoType.IMAGE_URL]: "image",
+  [MemoType.VOICE_URL]: "voice",
+  [MemoType.OBJECT_URL]: "object",
+};
+
+const PAYABLE_KINDS: Partial<Record<MemoType, PayableMemo["kind"]>> = {
+  [MemoType.PAYABLE_REQUEST]: "payableRequest",
+  [MemoType.PAYABLE_TRANSFER]: "payableTransfer",
+  [MemoType.PAYABLE_FEE]: "payableFee",
+  [MemoType.PAYABLE_FEE_REQUEST]: "payableFeeRequest",
+};
+
+const TX_HASH = /^0x[0-9a-fA-F]{64}$/;
+
+function parseJson(content: string): unknown {
+  const trimmed = content.trim();
+  if (!trimmed.startsWith("{") && !trimmed.startsWith("[") && !trimmed.startsWith('"')) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(trimmed);
+  } catch {
+    return undefined;
+  }
+}
+
+function asRecord(value: unknown): Record<string, any> | undefined {
+  return value && typeof value === "object" && !Array.isArray(value)
+    ? (value as Record<string, any>)
+    : undefined;
+}
+
+function httpUrl(value: unknown): string | undefined {
+  if (typeof value !== "string") return undefined;
+  try {
+    const url = new URL(value.trim());
+    return url.protocol === "http:" || url.protocol === "https:" ? url.href : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function optionalNumber(value: unknown): number | undefined {
+  const n = typeof value === "string" ? Number(value) : value;
+  return typeof n === "number" && Number.isFinite(n) ? n : undefined;
+}
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === "string" && value !== "" ? value : undefined;
+}
+
+/** Parse one raw memo. Never throws: unknown types and malformed content become messages. */
+export function parseMemo(memo: AcpMemoData): ParsedMemo {
+  const base: MemoBase = {
+    id: memo.id,
+    memoType: memo.memoType,
+    nextPhase: memo.nextPhase,
+    createdAt: memo.createdAt,
+    content: memo.content,
+  };
+  const json = parseJson(memo.content);
+
+  const media = MEDIA[memo.memoType];
+  if (media) {
+    const obj = asRecord(json);
+    return {
+      ...base,
+      kind: "attachment",
+      media,
+      url: httpUrl(obj ? obj.url : memo.content),
+      name: optionalString(obj?.name),
+      mimeType: optionalString(obj?.mimeType),
+      ...(json !== undefined ? { json } : {}),
+    };
+  }
+
+  if (memo.memoType === MemoType.TXHASH) {
+    const hash = memo.content.trim();
+    return { ...base, kind: "txHash", txHash: TX_HASH.test(hash) ? hash : undefined };
+  }
+
+  const payableKind = PAYABLE_KINDS[memo.memoType];
+  if (payableKind) {
+    const detail = asRecord(memo.payableDetail) ?? asRecord(json) ?? {};
+    const txHash = optionalString(detail.txHash);
+    return {
+      ...base,
+      kind: payableKind,
+      amount: optionalNumber(detail.amount),
+      tokenAddress: optionalString(detail.tokenAddress),
+      recipient: optionalString(detail.recipient),
+      txHash: txHash && TX_HASH.test(txHash) ? txHash : undefined,
+    };
+  }
+
+  return { ...base, kind: "message", text: memo.content, ...(json !== undefined ? { json } : {}) };
+}
+
+/** The negotiation memo's `{ name, requirement }`, if the job has one. */
+export function parseNegotiation(memos: AcpMemoData[]): NegotiationTerms | undefined {
+  const memo = memos.find((m) => m.nextPhase === AcpJobPhase.NEGOTIATION);
+  const content = asRecord(memo ? parseJson(memo.content) : undefined);
+  if (!content) return undefined;
+  return {
+    name: optionalString(content.name),
+    requirement: asRecord(content.requirement) ?? {},
+  };
+}
+
+/** `walletAddress` is the agent's own wallet, the recipient `transferred` counts. */
+export function parseJobMemos(memos: AcpMemoData[], walletAddress: string): JobMemos {
+  const all = memos.map(parseMemo);
+  const transfers = all.filter((m): m is PayableMemo => m.kind === "payableTransfer");
+  return {
+    all,
+    negotiation: parseNegotiation(memos),
+    attachments: all.filter((m): m is AttachmentMemo => m.kind === "attachment" && !!m.url),
+    txHashes: all.flatMap((m) => (m.kind === "txHash" && m.txHash ? [m.txHash] : [])),
+    transfers,
+    transferred: (tokenAddress) =>
+      transfers
+        .filter(
+          (t) =>
+            t.tokenAddress?.toLowerCase() === tokenAddress.toLowerCase() &&
+            t.recipient?.toLowerCase() === walletAddress.toLowerCase()
+        )
+        .reduce((sum, t) => sum + (t.amount ?? 0), 0),
+  };
+}
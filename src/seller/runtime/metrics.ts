@@ -0,0 +1,180 @@
+// =============================================================================
+// Seller runtime metrics, rendered in the Prometheus text exposition format.
+//
+// Instruments live in this process only and start from zero on every restart
+// (Prometheus handles counter resets). They are served by metricsServer.ts
+// when the seller is started with a metrics port.
+// =============================================================================
+
+type Labels = Record<string, string>;
+
+export interface Counter {
+  inc(labels?: Labels, value?: number): void;
+}
+
+export interface Gauge {
+  set(value: number, labels?: Labels): void;
+}
+
+export interface Histogram {
+  observe(labels: Labels, value: number): void;
+}
+
+interface Metric {
+  name: string;
+  help: string;
+  type: "counter" | "gauge" | "histogram";
+  render(): string[];
+}
+
+const registry: Metric[] = [];
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+}
+
+/** Stable key for a label set (labels sorted by name). */
+function labelKey(labels: Labels): string {
+  return Object.keys(labels)
+    .sort()
+    .map((k) => `${k}="${escapeLabel(labels[k])}"`)
+    .join(",");
+}
+
+function series(name: string, key: string, value: number): string {
+  return `${name}${key ? `{${key}}` : ""} ${value}`;
+}
+
+function createValueMetric(
+  type: "counter" | "gauge",
+  name: string,
+  help: string
+): { values: Map<string, number>; metric: Metric } {
+  const values = new Map<string, number>();
+  const metric: Metric = {
+    name,
+    help,
+    type,
+    render: () => [...values].map(([key, value]) => series(name, key, value)),
+  };
+  registry.push(metric);
+  return { values, metric };
+}
+
+export function createCounter(name: string, help: string): Counter {
+  const { values } = createValueMetric("counter", name, help);
+  return {
+    inc: (labels = {}, value = 1) => {
+      const key = labelKey(labels);
+      values.set(key, (values.get(key) ?? 0) + value);
+    },
+  };
+}
+
+export function createGauge(name: string, help: string): Gauge {
+  const { values } = createValueMetric("gauge", name, help);
+  return {
+    set: (value, labels = {}) => {
+      values.set(labelKey(labels), value);
+    },
+  };
+}
+
+export function createHistogram(name: string, help: string, buckets: number[]): Histogram {
+  const bounds = [...buckets].sort((a, b) => a - b);
+  const data = new Map<string, { counts: number[]; sum: number; count: number }>();
+
+  registry.push({
+    name,
+    help,
+    type: "histogram",
+    render: () => {
+      const lines: string[] = [];
+      for (const [key, { counts, sum, count }] of data) {
+        const withLe = (le: string) => (key ? `${key},le="${le}"` : `le="${le}"`);
+        bounds.forEach((bound, i) =>
+          lines.push(series(`${name}_bucket`, withLe(String(bound)), counts[i]))
+        );
+        lines.push(series(`${name}_bucket`, withLe("+Inf"), count));
+        lines.push(series(`${name}_sum`, key, sum));
+        lines.push(series(`${name}_count`, key, count));
+      }
+      return lines;
+    },
+  });
+
+  return {
+    observe: (labels, value) => {
+      const key = labelKey(labels);
+      let entry = data.get(key);
+      if (!entry) {
+        entry = { counts: bounds.map(() => 0), sum: 0, count: 0 };
+        data.set(key, entry);
+      }
+      bounds.forEach((bound, i) => {
+        if (value <= bound) entry!.counts[i]++;
+      });
+      entry.sum += value;
+      entry.count++;
+    },
+  };
+}
+
+/** Every metric in the Prometheus text format. */
+export function renderMetrics(): string {
+  const lines: string[] = [];
+  for (const metric of registry) {
+    lines.push(`# HELP ${metric.name} ${metric.help}`);
+    lines.push(`# TYPE ${metric.name} ${metric.type}`);
+    lines.push(...metric.render());
+  }
+  return lines.join("\n") + "\n";
+}
+
+// -- Seller instruments --
+
+export const jobsReceived = createCounter(
+  "acp_seller_jobs_received_total",
+  "Job events handled by the seller, by offering and phase."
+);
+export const jobsAccepted = createCounter(
+  "acp_seller_jobs_accepted_total",
+  "Jobs accepted, by offering."
+);
+export const jobsRejected = createCounter(
+  "acp_seller_jobs_rejected_total",
+  "Jobs rejected, by offering."
+);
+export const jobsDelivered = createCounter(
+  "acp_seller_jobs_delivered_total",
+  "Jobs delivered, by offering."
+);
+export const jobsFailed = createCounter(
+  "acp_seller_jobs_failed_total",
+  "Jobs that failed, by offering and stage (request, funds, execute, deliver, evaluate)."
+);
+export const verdictsRecorded = createCounter(
+  "acp_seller_verdicts_recorded_total",
+  "Evaluator verdicts recorded locally (not submitted to ACP), by offering and verdict (approved, rejected)."
+);
+export const handlerDuration = createHistogram(
+  "acp_seller_handler_duration_seconds",
+  "Offering handler run time, by offering and handler.",
+  [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120, 300]
+);
+export const socketConnected = createGauge(
+  "acp_seller_socket_connected",
+  "1 while the seller is connected to the ACP socket."
+);
+export const socketReconnects = createCounter(
+  "acp_seller_socket_reconnects_total",
+  "Reconnections to the ACP socket after the first connection."
+);
+export const apiErrors = createCounter(
+  "acp_seller_api_errors_total",
+  "Failed ACP API calls (every attempt, including retried ones), by endpoint and status."
+);
+
+// Unlabelled series are exported from the start, not only after their first change
+socketConnected.set(0);
+socketReconnects.inc({}, 0);
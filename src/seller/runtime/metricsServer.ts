@@ -0,0 +1,85 @@
+// =============================================================================
+// HTTP endpoints for monitoring a running seller.
+//
+//   GET /metrics  — Prometheus text format (see metrics.ts)
+//   GET /healthz  — 200 while the seller is connected to the ACP socket,
+//                   503 otherwise (also while shutting down)
+//   GET /artifacts/<key>?expires=..&signature=..
+//                 — large deliverables, with the local artifact store
+//
+// The seller runs up to two of these: one on ACP_SELLER_METRICS_PORT with
+// /metrics, meant to stay private, and one on the public PORT (as injected by
+// Railway) with only /healthz and /artifacts.
+// =============================================================================
+
+import * as http from "http";
+import { renderMetrics } from "./metrics.js";
+import { serveLocalArtifact } from "./artifactStore.js";
+import { createLogger } from "./logger.js";
+
+const log = createLogger("metrics");
+
+export interface HealthStatus {
+  healthy: boolean;
+  /** "connected", "disconnected" or "stopping". */
+  socket: string;
+}
+
+export interface MetricsServerOptions {
+  port: number;
+  /** Serve /metrics; leave off on a publicly reachable port. */
+  metrics: boolean;
+  health: () => HealthStatus;
+  /** Serve the local artifact store, whose URLs are signed with `secret`. */
+  artifacts?: { secret: string };
+}
+
+function send(res: http.ServerResponse, status: number, type: string, body: string): void {
+  res.writeHead(status, { "Content-Type": type, "Cache-Control": "no-store" });
+  res.end(body);
+}
+
+/** Start serving /healthz (and /metrics, /artifacts). Returns a function that closes the server. */
+export function startMetricsServer(opts: MetricsServerOptions): () => void {
+  const server = http.createServer((req, res) => {
+    const pathname = (req.url ?? "/").split("?")[0];
+    if (req.method !== "GET" && req.method !== "HEAD") {
+      send(res, 405, "text/plain", "Method Not Allowed\n");
+    } else if (opts.metrics && pathname === "/metrics") {
+      send(res, 200, "text/plain; version=0.0.4; charset=utf-8", renderMetrics());
+    } else if (pathname === "/healthz") {
+      const health = opts.health();
+      send(
+        res,
+        health.healthy ? 200 : 503,
+        "application/json",
+        JSON.stringify({ status: health.healthy ? "ok" : "unavailable", socket: health.socket })
+      );
+    } else if (opts.artifacts && pathname.startsWith("/artifacts/")) {
+      const artifact = serveLocalArtifact(
+        new URL(req.url ?? "/", "http://localhost"),
+        opts.artifacts
+      );
+      res.writeHead(artifact.status, { "Content-Type": artifact.contentType });
+      res.end(artifact.body);
+    } else {
+      send(res, 404, "text/plain", "Not Found\n");
+    }
+  });
+
+  const paths = [
+    ...(opts.metrics ? ["/metrics"] : []),
+    "/healthz",
+    ...(opts.artifacts ? ["/artifacts"] : []),
+  ];
+  server.on("error", (err) => {
+    log.error(`HTTP server failed on port ${opts.port}`, { error: err });
+  });
+  server.listen(opts.port, () => {
+    log.info(`Serving ${paths.join(", ")} on port ${opts.port}`);
+  });
+
+  return () => {
+    server.close();
+  };
+}
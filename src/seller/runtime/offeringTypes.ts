@@ -2,6 +2,18 @@
 // Shared types for offering handler contracts.
 // =============================================================================
 
+import type { AcpJobPhase, AcpMemoData } from "./types.js";
+import type { AttachmentMedia, JobMemos } from "./memos.js";
+
+export type {
+  AttachmentMemo,
+  JobMemos,
+  MessageMemo,
+  ParsedMemo,
+  PayableMemo,
+  TxHashMemo,
+} from "./memos.js";
+
 /** Optional token-transfer instruction returned by an offering handler. */
 export interface TransferInstruction {
   /** Token contract address (e.g. ERC-20 CA). */
@@ -10,16 +22,36 @@ export interface TransferInstruction {
   amount: number;
 }
 
+/**
+ * A further artifact delivered with the job — a link (`url`) or inline text
+ * such as a CSV (`content`), exactly one of the two. Attachments are bundled
+ * with the deliverable into a single delivery (see attachments.ts).
+ */
+export interface DeliverableAttachment {
+  /** Kind of artifact: "object" (default), "context", "image" or "voice". */
+  media?: AttachmentMedia;
+  url?: string;
+  content?: string;
+  name?: string;
+  mimeType?: string;
+}
+
 /**
  * Result returned by an offering's `executeJob` handler.
  *
  * - `deliverable` — the job result (simple string or structured object).
  * - `payableDetail` — optional: instructs the runtime to include a token transfer
  *                     in the deliver step (e.g. "return money to buyer").
+ * - `attachments` — optional: further artifacts (files, links), bundled with the
+ *                   deliverable (see attachments.ts).
+ * - `summary` — optional: short text delivered inline in place of a deliverable
+ *               too large to send as a memo (see artifactStore.ts).
  */
 export interface ExecuteJobResult {
   deliverable: string | { type: string; value: unknown };
   payableDetail?: { amount: number; tokenAddress: string };
+  attachments?: DeliverableAttachment[];
+  summary?: string;
 }
 
 /**
@@ -28,25 +60,131 @@ export interface ExecuteJobResult {
  */
 export type ValidationResult = boolean | { valid: boolean; reason?: string };
 
+/** Logger scoped to one job; lines are prefixed with the offering name and job id. */
+export interface HandlerLogger {
+  info: (...args: unknown[]) => void;
+  warn: (...args: unknown[]) => void;
+  error: (...args: unknown[]) => void;
+}
+
+/**
+ * Small persistent key/value store, one per offering. Values must be
+ * JSON-serialisable; they survive restarts and are shared by all jobs of the
+ * offering.
+ */
+export interface KeyValueStore {
+  get<T = unknown>(key: string): T | undefined;
+  set(key: string, value: unknown): void;
+  delete(key: string): void;
+  keys(): string[];
+}
+
+/**
+ * Context passed to every handler as its second argument. Handlers that only
+ * take `request` keep working — the extra argument is simply ignored.
+ *
+ * - `jobId`, `phase`, `clientAddress`, `providerAddress`, `evaluatorAddress`,
+ *   `price`, `memos` — the job as received from ACP.
+ * - `parsedMemos` — the same memos as typed objects: attachments with their
+ *                   URLs, buyer tx hashes, payable transfers (see memos.ts).
+ * - `walletAddress` — this agent's own wallet (the job's provider).
+ * - `offering` — the offering name being handled.
+ * - `logger` — console logger prefixed with the offering and job id.
+ * - `signal` — aborted when the job runs past its deadline (for `executeJob`,
+ *              what is left of the offering's `slaMinutes` since payment).
+ *              Pass it to fetch/axios calls or check `signal.aborted` in long
+ *              loops so the handler stops promptly.
+ * - `store` — persistent key/value store for the offering.
+ * - `progress` — report how the job is going; each call is written to the
+ *                job's log (ACP has no endpoint to post it to the buyer).
+ */
+export interface HandlerContext {
+  jobId: number;
+  phase: AcpJobPhase;
+  clientAddress: string;
+  providerAddress: string;
+  evaluatorAddress: string;
+  price: number;
+  memos: AcpMemoData[];
+  parsedMemos: JobMemos;
+  walletAddress: string;
+  offering: string;
+  logger: HandlerLogger;
+  signal: AbortSignal;
+  store: KeyValueStore;
+  progress: (message: string, percent?: number) => Promise<void>;
+}
+
+/** Optional handlers may return their result directly or as a Promise. */
+export type MaybePromise<T> = T | Promise<T>;
+
+/** Token transfer the buyer must make before the job runs (returned by requestAdditionalFunds). */
+export interface AdditionalFundsRequest {
+  content?: string;
+  amount: number;
+  tokenAddress: string;
+  recipient: string;
+}
+
+/**
+ * Advisory per-job price returned by quotePrice: a number is the job's full
+ * price in USDC; an object gives either the full `price` or a `surcharge` on
+ * top of the listed `jobFee` (negative for a discount), with a `reason` shown
+ * to the buyer. The fee ACP charges stays the listed one.
+ */
+export type QuoteResult = number | { price?: number; surcharge?: number; reason?: string };
+
 /**
  * The handler set every offering must / can export.
  *
  * Required:
- *   executeJob(request) => ExecuteJobResult
+ *   executeJob(request, ctx) => ExecuteJobResult
  *
- * Optional:
- *   validateRequirements(request) => boolean | { valid: boolean, reason?: string }
- *   requestPayment(request) => string
- *   requestAdditionalFunds(request) => { content, amount, tokenAddress, recipient }
+ * Optional (sync or async; each is bounded by ACP_HANDLER_TIMEOUT_MS):
+ *   validateRequirements(request, ctx) => boolean | { valid: boolean, reason?: string }
+ *   requestPayment(request, ctx) => string
+ *   requestAdditionalFunds(request, ctx) => { content, amount, tokenAddress, recipient }
+ *   quotePrice(request, ctx) => number | { price?, surcharge?, reason? }
  */
 export interface OfferingHandlers {
-  executeJob: (request: Record<string, any>) => Promise<ExecuteJobResult>;
-  validateRequirements?: (request: Record<string, any>) => ValidationResult;
-  requestPayment?: (request: Record<string, any>) => string;
-  requestAdditionalFunds?: (request: Record<string, any>) => {
-    content?: string;
-    amount: number;
-    tokenAddress: string;
-    recipient: string;
-  };
+  executeJob: (request: Record<string, any>, ctx: HandlerContext) => Promise<ExecuteJobResult>;
+  validateRequirements?: (
+    request: Record<string, any>,
+    ctx: HandlerContext
+  ) => MaybePromise<ValidationResult>;
+  requestPayment?: (request: Record<string, any>, ctx: HandlerContext) => MaybePromise<string>;
+  requestAdditionalFunds?: (
+    request: Record<string, any>,
+    ctx: HandlerContext
+  ) => MaybePromise<AdditionalFundsRequest>;
+  quotePrice?: (request: Record<string, any>, ctx: HandlerContext) => MaybePromise<QuoteResult>;
+}
+
+// -- Evaluators --
+
+/** What an evaluator is asked to judge: a delivered job. */
+export interface EvaluationRequest {
+  /** The offering the job was for. */
+  offering: string;
+  /** The buyer's service requirements. */
+  requirements: Record<string, any>;
+  /** The provider's deliverable (parsed from JSON when possible). */
+  deliverable: unknown;
+}
+
+/**
+ * Verdict returned by an evaluator's `evaluate` handler. A plain boolean
+ * approves or rejects without a reason.
+ */
+export type EvaluationResult = boolean | { approve: boolean; reason?: string };
+
+/**
+ * The handler set an evaluator exports from
+ * src/seller/evaluators/<agent-name>/<evaluator>/handlers.ts.
+ *
+ * Required (sync or async; bounded by ACP_HANDLER_TIMEOUT_MS):
+ *   evaluate(request, ctx) => boolean | { approve: boolean, reason?: string }
+ */
+export interface EvaluatorHandlers {
+  evaluate: (request: EvaluationRequest, ctx: HandlerContext) => MaybePromise<EvaluationResult>;
 }
@@ -0,0 +1,131 @@
+// =============================================================================
+// Hot reload of offerings in a running seller.
+//
+// Watches src/seller/offerings/<agent>/ and, when an offering's offering.json
+// or handlers.ts changes (or an offering directory is added or removed),
+// re-imports it through reloadOffering. A version that fails to load is not
+// swapped in; the previous one keeps serving jobs. Jobs already running keep
+// the version they started with.
+//
+// Only offering.json and handlers.ts are re-imported. Modules that handlers.ts
+// imports (e.g. shared connectors) stay cached until the seller restarts, and
+// Node never evicts ES modules, so every reload keeps the previous handlers.ts
+// in memory. Hot reload is for development; restart the seller to pick up
+// changed helpers and to release old versions.
+// =============================================================================
+
+import * as fs from "fs";
+import * as path from "path";
+import { reloadOffering, resolveOfferingsRoot, unloadOffering } from "./offerings.js";
+import { createLogger } from "./logger.js";
+
+const log = createLogger("seller");
+
+/** Editors write files in several steps; wait for them to settle before reloading. */
+const DEBOUNCE_MS = 300;
+
+const WATCHED_FILES = new Set(["offering.json", "handlers.ts"]);
+
+export interface OfferingWatcherCallbacks {
+  /** An offering was added or its current version changed. */
+  onReload?: (offeringName: string, version: string) => void;
+  /** An offering directory was removed. */
+  onRemove?: (offeringName: string) => void;
+}
+
+export interface OfferingWatcher {
+  close(): void;
+}
+
+function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+async function reload(
+  offeringName: string,
+  agentDirName: string,
+  callbacks: OfferingWatcherCallbacks
+): Promise<void> {
+  const offeringDir = path.join(resolveOfferingsRoot(agentDirName), offeringName);
+
+  if (!fs.existsSync(offeringDir)) {
+    const removed = unloadOffering(offeringName, agentDirName);
+    if (removed) {
+      log.info(`Offering "${offeringName}" removed (was version ${removed.version})`, {
+        offering: offeringName,
+      });
+      callbacks.onRemove?.(offeringName);
+    }
+    return;
+  }
+  // A new directory before its files are written — wait for them
+  if (![...WATCHED_FILES].every((f) => fs.existsSync(path.join(offeringDir, f)))) return;
+
+  try {
+    const { offering, previous } = await reloadOffering(offeringName, agentDirName);
+    if (previous?.version === offering.version) return;
+    log.info(
+      previous
+        ? `Reloaded offering "${offeringName}" (version ${previous.version} → ${offering.version})`
+        : `Loaded offering "${offeringName}" (version ${offering.version})`,
+      { offering: offeringName, version: offering.version }
+    );
+    callbacks.onReload?.(offeringName, offering.version);
+  } catch (err) {
+    log.error(`Offering "${offeringName}" not reloaded — keeping the running version`, {
+      offering: offeringName,
+      error: errorMessage(err),
+    });
+  }
+}
+
+/**
+ * Start watching an agent's offerings. Returns undefined if the directory
+ * does not exist or cannot be watched.
+ */
+export function watchOfferings(
+  agentDirName: string,
+  callbacks: OfferingWatcherCallbacks = {}
+): OfferingWatcher | undefined {
+  const root = resolveOfferingsRoot(agentDirName);
+  if (!fs.existsSync(root)) return undefined;
+
+  const timers = new Map<string, NodeJS.Timeout>();
+  /** Reloads run one at a time so two quick edits cannot swap versions out of order. */
+  let chain: Promise<void> = Promise.resolve();
+
+  const schedule = (offeringName: string) => {
+    clearTimeout(timers.get(offeringName));
+    timers.set(
+      offeringName,
+      setTimeout(() => {
+        timers.delete(offeringName);
+        chain = chain.then(() => reload(offeringName, agentDirName, callbacks));
+      }, DEBOUNCE_MS)
+    );
+  };
+
+  let watcher: fs.FSWatcher;
+  try {
+    watcher = fs.watch(root, { recursive: true }, (_event, filename) => {
+      if (!filename) return;
+      const parts = filename.toString().split(path.sep);
+      // The offering directory itself (added/removed) or one of its watched files
+      if (parts.length === 1 || (parts.length === 2 && WATCHED_FILES.has(parts[1]))) {
+        schedule(parts[0]);
+      }
+    });
+  } catch (err) {
+    log.error(`Could not watch ${root} for offering changes`, { error: errorMessage(err) });
+    return undefined;
+  }
+  watcher.on("error", (err) => log.error("Offering watcher error", { error: err }));
+
+  return {
+    close: () => {
+      for (const timer of timers.values()) clearTimeout(timer);
+      timers.clear();
+      watcher.close();
+    },
+  };
+}
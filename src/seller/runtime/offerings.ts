@@ -5,7 +5,8 @@
 
 import * as fs from "fs";
 import * as path from "path";
-import { fileURLToPath } from "url";
+import { createHash } from "crypto";
+import { fileURLToPath, pathToFileURL } from "url";
 import type { OfferingHandlers } from "./offeringTypes.js";
 
 const __filename = fileURLToPath(import.meta.url);
@@ -19,25 +20,66 @@ export interface OfferingConfig {
   jobFee: number;
   jobFeeType: "fixed" | "percentage";
   requiredFunds: boolean;
+  /** Requirement schema (field map or JSON Schema) checked before any handler runs. */
+  requirement?: Record<string, any>;
+  /** JSON Schema the handler's deliverable must match before it is delivered. */
+  deliverableSchema?: Record<string, any>;
+  /** Minutes the buyer expects delivery within; bounds `executeJob` run time. */
+  slaMinutes?: number;
+  /** Max jobs of this offering the runtime executes at once. */
+  concurrency?: number;
 }
 
 export interface LoadedOffering {
   config: OfferingConfig;
   handlers: OfferingHandlers;
+  /** Short hash of offering.json + handlers.ts; logged with every job it serves. */
+  version: string;
 }
 
-function resolveOfferingsRoot(agentDirName: string): string {
+/**
+ * Offerings imported so far, keyed by "<agent>/<offering>". A reload swaps the
+ * entry; jobs already holding the previous one finish with it.
+ */
+const loaded = new Map<string, LoadedOffering>();
+
+function cacheKey(offeringName: string, agentDirName: string): string {
+  return `${agentDirName}/${offeringName}`;
+}
+
+export function resolveOfferingsRoot(agentDirName: string): string {
   return path.resolve(__dirname, "..", "offerings", agentDirName);
 }
 
 /**
- * Load a named offering from `src/seller/offerings/<agentDirName>/<name>/`.
- * Expects `offering.json` and `handlers.ts` in that directory.
+ * Read just the offering.json of a named offering (no handler import).
+ * Returns undefined if the offering does not exist or the file is invalid.
  */
-export async function loadOffering(
+export function readOfferingConfig(
   offeringName: string,
   agentDirName: string
-): Promise<LoadedOffering> {
+): OfferingConfig | undefined {
+  const configPath = path.resolve(
+    resolveOfferingsRoot(agentDirName),
+    offeringName,
+    "offering.json"
+  );
+  try {
+    return JSON.parse(fs.readFileSync(configPath, "utf-8"));
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Import an offering from disk. handlers.ts is imported under a URL that
+ * includes the version, so edited handlers are re-evaluated instead of being
+ * served from Node's module cache. Only handlers.ts gets a new URL — the
+ * modules it imports are still the cached ones — and each version stays in
+ * the cache for the life of the process. Throws if the offering is incomplete
+ * or invalid.
+ */
+async function importOffering(offeringName: string, agentDirName: string): Promise<LoadedOffering> {
   const offeringDir = path.resolve(resolveOfferingsRoot(agentDirName), offeringName);
 
   // offering.json
@@ -45,7 +87,8 @@ export async function loadOffering(
   if (!fs.existsSync(configPath)) {
     throw new Error(`offering.json not found: ${configPath}`);
   }
-  const config: OfferingConfig = JSON.parse(fs.readFileSync(configPath, "utf-8"));
+  const configSource = fs.readFileSync(configPath, "utf-8");
+  const config: OfferingConfig = JSON.parse(configSource);
 
   // handlers.ts (dynamically imported)
   const handlersPath = path.join(offeringDir, "handlers.ts");
@@ -53,13 +96,67 @@ export async function loadOffering(
     throw new Error(`handlers.ts not found: ${handlersPath}`);
   }
 
-  const handlers = (await import(handlersPath)) as OfferingHandlers;
+  const version = createHash("sha256")
+    .update(configSource)
+    .update("\0")
+    .update(fs.readFileSync(handlersPath))
+    .digest("hex")
+    .slice(0, 8);
+  const handlers = (await import(
+    `${pathToFileURL(handlersPath).href}?v=${version}`
+  )) as OfferingHandlers;
 
   if (typeof handlers.executeJob !== "function") {
     throw new Error(`handlers.ts in "${offeringName}" must export an executeJob function`);
   }
 
-  return { config, handlers };
+  return { config, handlers, version };
+}
+
+/**
+ * Load a named offering from `src/seller/offerings/<agentDirName>/<name>/`.
+ * Expects `offering.json` and `handlers.ts` in that directory. Returns the
+ * current version if it was loaded before (see reloadOffering).
+ */
+export async function loadOffering(
+  offeringName: string,
+  agentDirName: string
+): Promise<LoadedOffering> {
+  const key = cacheKey(offeringName, agentDirName);
+  const current = loaded.get(key);
+  if (current) return current;
+
+  const offering = await importOffering(offeringName, agentDirName);
+  loaded.set(key, offering);
+  return offering;
+}
+
+/**
+ * Re-import an offering from disk and make it the current version. If the
+ * new files are invalid this throws and the previous version stays current.
+ * `previous` is undefined for an offering that was not loaded before.
+ */
+export async function reloadOffering(
+  offeringName: string,
+  agentDirName: string
+): Promise<{ offering: LoadedOffering; previous?: LoadedOffering }> {
+  const key = cacheKey(offeringName, agentDirName);
+  const previous = loaded.get(key);
+  const offering = await importOffering(offeringName, agentDirName);
+  if (previous?.version === offering.version) return { offering: previous, previous };
+  loaded.set(key, offering);
+  return { offering, previous };
+}
+
+/** Drop an offering's current version (its directory was removed). */
+export function unloadOffering(
+  offeringName: string,
+  agentDirName: string
+): LoadedOffering | undefined {
+  const key = cacheKey(offeringName, agentDirName);
+  const previous = loaded.get(key);
+  loaded.delete(key);
+  return previous;
 }
 
 /**
@@ -0,0 +1,79 @@
+// =============================================================================
+// Advisory per-job price quotes.
+//
+// An offering's listed price (`jobFee` in offering.json) is fixed when it is
+// registered, and it is what ACP escrows for every job. An optional
+// `quotePrice(request, ctx)` handler prices an individual request: the runtime
+// calls it before accepting the job, sends the quote in the payment request
+// memo and records it in the job journal. The quote is advisory — it does not
+// change the fee charged; a surcharge has to be collected separately (e.g. as
+// part of `requestAdditionalFunds`).
+// =============================================================================
+
+import type { QuoteResult } from "./offeringTypes.js";
+
+export interface AdvisoryQuote {
+  /** The job's listed price — what ACP actually charges for it. */
+  basePrice: number;
+  /** The quoted price: `basePrice + surcharge`. */
+  price: number;
+  surcharge: number;
+  reason?: string;
+}
+
+/** Amounts are kept to USDC's 6 decimals. */
+function round(amount: number): number {
+  return Math.round(amount * 1e6) / 1e6;
+}
+
+function finiteNumber(value: unknown, what: string): number {
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    throw new Error(`quotePrice returned an invalid ${what}: ${JSON.stringify(value)}`);
+  }
+  return value;
+}
+
+/**
+ * Turn a `quotePrice` return value into a quote against `basePrice`. A number
+ * (or `{ price }`) is the job's full price; `{ surcharge }` is added to the
+ * listed price. Throws if the result is malformed or the price is negative.
+ */
+export function resolveQuote(result: QuoteResult, basePrice: number): AdvisoryQuote {
+  const quote = typeof result === "number" ? { price: result } : result;
+  if (!quote || typeof quote !== "object") {
+    throw new Error(`quotePrice must return a number or { price | surcharge, reason? }`);
+  }
+  if ((quote.price === undefined) === (quote.surcharge === undefined)) {
+    throw new Error("quotePrice must return either price or surcharge");
+  }
+  const price = round(
+    quote.price !== undefined
+      ? finiteNumber(quote.price, "price")
+      : basePrice + finiteNumber(quote.surcharge, "surcharge")
+  );
+  if (price < 0) {
+    throw new Error(`quotePrice returned a negative price: ${price}`);
+  }
+  return {
+    basePrice,
+    price,
+    surcharge: round(price - basePrice),
+    ...(quote.reason ? { reason: String(quote.reason) } : {}),
+  };
+}
+
+/**
+ * The line appended to the payment request memo, e.g. "Advisory quote: 12.5
+ * USDC (listed 10 + 2.5 — 90-day horizon); the job fee charged is 10 USDC".
+ */
+export function describeQuote(quote: AdvisoryQuote): string {
+  const { basePrice, price, surcharge, reason } = quote;
+  const breakdown =
+    surcharge === 0
+      ? `listed ${basePrice}`
+      : `listed ${basePrice} ${surcharge > 0 ? "+" : "-"} ${Math.abs(surcharge)}`;
+  return (
+    `Advisory quote: ${price} USDC (${breakdown}${reason ? ` — ${reason}` : ""}); ` +
+    `the job fee charged is ${basePrice} USDC`
+  );
+}
@@ -0,0 +1,116 @@
+// =============================================================================
+// Startup / reconnect reconciliation.
+//
+// The socket only pushes jobs that change state while we are connected. After a
+// restart or reconnect, fetch the agent's active jobs over REST and feed the
+// ones waiting on it (as provider, or as evaluator) through the normal task
+// pipeline.
+// =============================================================================
+
+import { fetchActiveJobs, fetchJob, type RawJob } from "./sellerApi.js";
+import { AcpJobPhase, MemoType, type AcpJobEventData, type AcpMemoData } from "./types.js";
+
+/** Phases in which the job is waiting on the seller to act. */
+const SELLER_PHASES: ReadonlySet<AcpJobPhase> = new Set([
+  AcpJobPhase.REQUEST,
+  AcpJobPhase.TRANSACTION,
+]);
+
+/** Accept either the numeric enum value or its name (e.g. "TRANSACTION"). */
+function toEnum<T extends number>(
+  enumObj: Record<string, string | number>,
+  value: unknown
+): T | undefined {
+  if (typeof value === "number") return value as T;
+  if (typeof value === "string") {
+    const upper = value.trim().toUpperCase();
+    if (upper in enumObj && typeof enumObj[upper] === "number") return enumObj[upper] as T;
+    const n = Number(value);
+    if (value.trim() !== "" && Number.isInteger(n)) return n as T;
+  }
+  return undefined;
+}
+
+function normalizeMemo(raw: Record<string, any>): AcpMemoData {
+  return {
+    id: Number(raw.id),
+    memoType: toEnum<MemoType>(MemoType, raw.memoType) ?? MemoType.MESSAGE,
+    content: typeof raw.content === "string" ? raw.content : JSON.stringify(raw.content ?? ""),
+    nextPhase: toEnum<AcpJobPhase>(AcpJobPhase, raw.nextPhase) ?? AcpJobPhase.REQUEST,
+    expiry: raw.expiry ?? null,
+    createdAt: raw.createdAt,
+    type: raw.type,
+    ...(raw.payableDetail ? { payableDetail: raw.payableDetail } : {}),
+  };
+}
+
+/**
+ * Convert a REST job into the socket event shape. The REST payload has no
+ * `memoToSign`, so for REQUEST-phase jobs the latest negotiation memo is used.
+ */
+export function toJobEvent(raw: RawJob): AcpJobEventData | undefined {
+  const phase = toEnum<AcpJobPhase>(AcpJobPhase, raw.phase);
+  if (phase === undefined) return undefined;
+
+  const memos = Array.isArray(raw.memos) ? raw.memos.map(normalizeMemo) : [];
+  let memoToSign: number | undefined = raw.memoToSign != null ? Number(raw.memoToSign) : undefined;
+  if (memoToSign === undefined && phase === AcpJobPhase.REQUEST) {
+    const negotiation = memos.filter((m) => m.nextPhase === AcpJobPhase.NEGOTIATION).pop();
+    memoToSign = negotiation?.id;
+  }
+
+  return {
+    id: Number(raw.id),
+    phase,
+    clientAddress: raw.clientAddress ?? "",
+    providerAddress: raw.providerAddress ?? "",
+    evaluatorAddress: raw.evaluatorAddress ?? "",
+    price: Number(raw.price ?? 0),
+    memos,
+    context: raw.context ?? {},
+    createdAt: raw.createdAt,
+    memoToSign,
+  };
+}
+
+/** Whether `job` waits on `wallet`: as provider in REQUEST/TRANSACTION, or as evaluator in EVALUATION. */
+function waitsOn(
+  job: { phase?: AcpJobPhase; providerAddress?: string; evaluatorAddress?: string },
+  wallet: string
+): boolean {
+  const provider = String(job.providerAddress ?? "").toLowerCase();
+  const evaluator = String(job.evaluatorAddress ?? "").toLowerCase();
+  if (job.phase === AcpJobPhase.EVALUATION) return !evaluator || evaluator === wallet;
+  if (provider && provider !== wallet) return false;
+  return job.phase === undefined || SELLER_PHASES.has(job.phase);
+}
+
+/**
+ * Find active jobs where the next move is this agent's (as provider or as
+ * evaluator), and hand each one to `dispatch`. Returns the number of jobs
+ * dispatched.
+ */
+export async function reconcileActiveJobs(
+  walletAddress: string,
+  dispatch: (data: AcpJobEventData) => void
+): Promise<number> {
+  const active = await fetchActiveJobs();
+  const wallet = walletAddress.toLowerCase();
+  let dispatched = 0;
+
+  for (const summary of active) {
+    const summaryPhase = toEnum<AcpJobPhase>(AcpJobPhase, summary.phase);
+    if (!waitsOn({ ...summary, phase: summaryPhase }, wallet)) continue;
+
+    // The list endpoint may omit memos — fetch the full job when needed
+    const raw = Array.isArray(summary.memos) ? summary : await fetchJob(Number(summary.id));
+    const event = raw ? toJobEvent(raw) : undefined;
+    if (!event || !waitsOn(event, wallet)) continue;
+    if (event.phase === AcpJobPhase.EVALUATION && !event.evaluatorAddress) continue;
+
+    dispatch(event);
+    dispatched++;
+  }
+
+  return dispatched;
+}
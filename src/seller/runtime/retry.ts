@@ -0,0 +1,137 @@
+// =============================================================================
+// Retry policy for seller API calls.
+//
+// Network failures, 5xx, 408 and 429 are retried with exponential backoff and
+// full jitter. Other 4xx responses are validation errors and fail immediately.
+//
+// Configure via env (ACP_RETRY_MAX_ATTEMPTS, ACP_RETRY_BASE_DELAY_MS,
+// ACP_RETRY_MAX_DELAY_MS) or "SELLER_RETRY" in config.json; env wins.
+// =============================================================================
+
+import axios from "axios";
+import { AcpApiError } from "../../lib/client.js";
+import { readConfig } from "../../lib/config.js";
+import { createLogger } from "./logger.js";
+
+const log = createLogger("retry");
+
+export interface RetryPolicy {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+const DEFAULT_POLICY: RetryPolicy = {
+  maxAttempts: 5,
+  baseDelayMs: 500,
+  maxDelayMs: 30_000,
+};
+
+/** Thrown when every attempt failed (or the first failure was not retryable). */
+export class RetryFailedError extends Error {
+  readonly attempts: number;
+
+  constructor(label: string, attempts: number, cause: unknown) {
+    super(
+      `${label} failed after ${attempts} attempt(s): ${cause instanceof Error ? cause.message : String(cause)}`,
+      { cause }
+    );
+    this.name = "RetryFailedError";
+    this.attempts = attempts;
+  }
+}
+
+function pick(envValue: string | undefined, configValue: number | undefined, fallback: number) {
+  const fromEnv = Number(envValue);
+  if (envValue && Number.isFinite(fromEnv) && fromEnv >= 0) return fromEnv;
+  if (typeof configValue === "number" && configValue >= 0) return configValue;
+  return fallback;
+}
+
+export function loadRetryPolicy(): RetryPolicy {
+  const config = readConfig().SELLER_RETRY ?? {};
+  return {
+    maxAttempts: Math.max(
+      1,
+      pick(process.env.ACP_RETRY_MAX_ATTEMPTS, config.maxAttempts, DEFAULT_POLICY.maxAttempts)
+    ),
+    baseDelayMs: pick(
+      process.env.ACP_RETRY_BASE_DELAY_MS,
+      config.baseDelayMs,
+      DEFAULT_POLICY.baseDelayMs
+    ),
+    maxDelayMs: pick(
+      process.env.ACP_RETRY_MAX_DELAY_MS,
+      config.maxDelayMs,
+      DEFAULT_POLICY.maxDelayMs
+    ),
+  };
+}
+
+/** HTTP status of a failed API call, if the server responded at all. */
+export function errorStatus(err: unknown): number | undefined {
+  if (err instanceof RetryFailedError) return errorStatus(err.cause);
+  if (err instanceof AcpApiError) return err.status;
+  if (axios.isAxiosError(err)) return err.response?.status;
+  return undefined;
+}
+
+export function isRetryable(err: unknown): boolean {
+  const status = errorStatus(err);
+  if (status === undefined) {
+    // No response: connection reset, DNS failure, timeout...
+    return axios.isAxiosError(err);
+  }
+  return status >= 500 || status === 408 || status === 429;
+}
+
+/**
+ * Whether a failed idempotent call was in fact applied by an earlier attempt
+ * whose response we lost: a 409 Conflict whose body names the same
+ * Idempotency-Key (`{ "idempotencyKey": "..." }`). Any other 409 is a real
+ * conflict — e.g. the job already moved past the step — and stays an error.
+ */
+export function isAlreadyApplied(err: unknown, idempotencyKey: string): boolean {
+  if (err instanceof RetryFailedError) return isAlreadyApplied(err.cause, idempotencyKey);
+  if (errorStatus(err) !== 409) return false;
+  const body =
+    err instanceof AcpApiError
+      ? err.body
+      : axios.isAxiosError(err)
+        ? err.response?.data
+        : undefined;
+  return (
+    !!body &&
+    typeof body === "object" &&
+    (body as Record<string, unknown>).idempotencyKey === idempotencyKey
+  );
+}
+
+function backoffMs(policy: RetryPolicy, attempt: number): number {
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+  return Math.round(Math.random() * ceiling);
+}
+
+export async function withRetry<T>(
+  label: string,
+  fn: () => Promise<T>,
+  policy: RetryPolicy = loadRetryPolicy()
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fn();
+    } catch (err) {
+      if (!isRetryable(err) || attempt >= policy.maxAttempts) {
+        throw new RetryFailedError(label, attempt, err);
+      }
+      const delay = backoffMs(policy, attempt);
+      log.warn(
+        `${label} failed (attempt ${attempt}/${policy.maxAttempts}) — retrying in ${delay}ms`,
+        {
+          error: err instanceof Error ? err.message : String(err),
+        }
+      );
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+}
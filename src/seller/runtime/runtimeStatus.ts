@@ -0,0 +1,70 @@
+// =============================================================================
+// Runtime status snapshot shared between the seller process and the CLI.
+//
+// The seller is a detached process, so it periodically writes what it is doing
+// to logs/seller-status.json; `acp serve status` reads it back.
+// =============================================================================
+
+import * as fs from "fs";
+import * as path from "path";
+import { LOGS_DIR } from "../../lib/config.js";
+import type { SchedulerStats } from "./scheduler.js";
+import type { ConnectionState } from "./acpSocket.js";
+
+export const RUNTIME_STATUS_PATH = path.resolve(LOGS_DIR, "seller-status.json");
+
+/** Progress of a graceful shutdown (SIGTERM/SIGINT), read by `acp serve stop`. */
+export interface ShutdownStatus {
+  state: "draining" | "stopped";
+  signal: string;
+  startedAt: string;
+  /** How long running jobs are given to finish. */
+  graceMs: number;
+  /** Jobs running when the signal arrived. */
+  inFlight: number;
+  /** Queued jobs that were never started; they are picked up again on the next start. */
+  dropped: number;
+  /** Jobs that finished during the drain (set once stopped). */
+  drained?: number;
+  /** Jobs still running when the grace period ran out (set once stopped). */
+  abandoned?: number[];
+}
+
+export interface RuntimeStatus {
+  pid: number;
+  startedAt: string;
+  updatedAt: string;
+  scheduler?: SchedulerStats;
+  connection?: ConnectionState;
+  shutdown?: ShutdownStatus;
+}
+
+let current: RuntimeStatus | undefined;
+
+/** Merge `patch` into the in-memory status and persist it. */
+export function updateRuntimeStatus(patch: Partial<RuntimeStatus>): void {
+  const now = new Date().toISOString();
+  current = {
+    pid: process.pid,
+    startedAt: current?.startedAt ?? now,
+    ...current,
+    ...patch,
+    updatedAt: now,
+  };
+  try {
+    fs.mkdirSync(LOGS_DIR, { recursive: true });
+    fs.writeFileSync(RUNTIME_STATUS_PATH, JSON.stringify(current, null, 2) + "\n");
+  } catch {
+    // Status is informational — never let it break the runtime
+  }
+}
+
+/** Read the last status written by a seller process, if any. */
+export function readRuntimeStatus(): RuntimeStatus | undefined {
+  if (!fs.existsSync(RUNTIME_STATUS_PATH)) return undefined;
+  try {
+    return JSON.parse(fs.readFileSync(RUNTIME_STATUS_PATH, "utf-8"));
+  } catch {
+    return undefined;
+  }
+}
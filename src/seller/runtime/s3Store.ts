@@ -0,0 +1,175 @@
+// =============================================================================
+// S3-compatible artifact store.
+//
+// Uploads with a SigV4-signed PUT and hands out presigned GET URLs, so no AWS
+// SDK is needed. Works with AWS S3 (virtual-hosted URLs) and with S3-compatible
+// services such as R2 or MinIO when an endpoint is given (path-style URLs).
+// =============================================================================
+
+import { createHash, createHmac } from "crypto";
+import axios from "axios";
+import type { ArtifactStore, StoredArtifact } from "./artifactStore.js";
+
+export interface S3StoreOptions {
+  bucket: string;
+  region: string;
+  /** Endpoint of an S3-compatible service (e.g. https://<account>.r2.cloudflarestorage.com). */
+  endpoint?: string;
+  /** Prepended to every object key (e.g. "acp/"). */
+  prefix?: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  sessionToken?: string;
+  /** Lifetime of presigned URLs; S3 allows at most 7 days. */
+  ttlSeconds: number;
+}
+
+const ALGORITHM = "AWS4-HMAC-SHA256";
+const MAX_PRESIGN_SECONDS = 7 * 24 * 3600;
+
+function sha256Hex(data: string | Buffer): string {
+  return createHash("sha256").update(data).digest("hex");
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return createHmac("sha256", key).update(data).digest();
+}
+
+/** RFC 3986 encoding, as SigV4 requires (encodeURIComponent leaves !'()* alone). */
+function uriEncode(value: string): string {
+  return encodeURIComponent(value).replace(
+    /[!'()*]/g,
+    (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`
+  );
+}
+
+/** "20130524T000000Z" */
+function amzDate(date: Date): string {
+  return date
+    .toISOString()
+    .replace(/[-:]/g, "")
+    .replace(/\.\d{3}/, "");
+}
+
+interface SignInput {
+  method: string;
+  path: string;
+  query: Record<string, string>;
+  headers: Record<string, string>;
+  payloadHash: string;
+  date: Date;
+}
+
+/**
+ * SigV4 signature for a request. `headers` must include `host` and every
+ * other header being signed (names in lower case).
+ */
+export function signV4(
+  opts: Pick<S3StoreOptions, "region" | "secretAccessKey">,
+  input: SignInput
+): { signature: string; signedHeaders: string; scope: string } {
+  const stamp = amzDate(input.date);
+  const day = stamp.slice(0, 8);
+  const scope = `${day}/${opts.region}/s3/aws4_request`;
+
+  const names = Object.keys(input.headers).sort();
+  const canonicalHeaders = names.map((n) => `${n}:${input.headers[n].trim()}\n`).join("");
+  const signedHeaders = names.join(";");
+  const canonicalQuery = Object.keys(input.query)
+    .sort()
+    .map((k) => `${uriEncode(k)}=${uriEncode(input.query[k])}`)
+    .join("&");
+  const canonicalRequest = [
+    input.method,
+    input.path,
+    canonicalQuery,
+    canonicalHeaders,
+    signedHeaders,
+    input.payloadHash,
+  ].join("\n");
+
+  const stringToSign = [ALGORITHM, stamp, scope, sha256Hex(canonicalRequest)].join("\n");
+  const signingKey = hmac(
+    hmac(hmac(hmac(`AWS4${opts.secretAccessKey}`, day), opts.region), "s3"),
+    "aws4_request"
+  );
+  return { signature: hmac(signingKey, stringToSign).toString("hex"), signedHeaders, scope };
+}
+
+export function createS3Store(opts: S3StoreOptions): ArtifactStore {
+  const endpoint = opts.endpoint ? new URL(opts.endpoint) : undefined;
+  const protocol = endpoint ? endpoint.protocol : "https:";
+  const host = endpoint
+    ? endpoint.host
+    : `${opts.bucket}.s3.${opts.region === "us-east-1" ? "" : `${opts.region}.`}amazonaws.com`;
+  const ttl = Math.min(opts.ttlSeconds, MAX_PRESIGN_SECONDS);
+
+  /** URI path of an object: path-style with a custom endpoint, virtual-hosted otherwise. */
+  const objectPath = (key: string) => {
+    const encoded = `${opts.prefix ?? ""}${key}`.split("/").map(uriEncode).join("/");
+    return endpoint ? `/${uriEncode(opts.bucket)}/${encoded}` : `/${encoded}`;
+  };
+
+  const presignGet = (key: string, date: Date): string => {
+    const path = objectPath(key);
+    const query: Record<string, string> = {
+      "X-Amz-Algorithm": ALGORITHM,
+      "X-Amz-Credential": `${opts.accessKeyId}/${amzDate(date).slice(0, 8)}/${opts.region}/s3/aws4_request`,
+      "X-Amz-Date": amzDate(date),
+      "X-Amz-Expires": String(ttl),
+      "X-Amz-SignedHeaders": "host",
+      ...(opts.sessionToken ? { "X-Amz-Security-Token": opts.sessionToken } : {}),
+    };
+    const { signature } = signV4(opts, {
+      method: "GET",
+      path,
+      query,
+      headers: { host },
+      payloadHash: "UNSIGNED-PAYLOAD",
+      date,
+    });
+    const qs = Object.keys(query)
+      .sort()
+      .map((k) => `${uriEncode(k)}=${uriEncode(query[k])}`)
+      .join("&");
+    return `${protocol}//${host}${path}?${qs}&X-Amz-Signature=${signature}`;
+  };
+
+  return {
+    kind: "s3",
+    async put(key, body, contentType): Promise<StoredArtifact> {
+      const date = new Date();
+      const path = objectPath(key);
+      const payloadHash = sha256Hex(body);
+      const headers: Record<string, string> = {
+        host,
+        "content-type": contentType,
+        "x-amz-content-sha256": payloadHash,
+        "x-amz-date": amzDate(date),
+        ...(opts.sessionToken ? { "x-amz-security-token": opts.sessionToken } : {}),
+      };
+      const { signature, signedHeaders, scope } = signV4(opts, {
+        method: "PUT",
+        path,
+        query: {},
+        headers,
+        payloadHash,
+        date,
+      });
+      const { host: _host, ...sent } = headers;
+      await axios.put(`${protocol}//${host}${path}`, body, {
+        headers: {
+          ...sent,
+          Authorization: `${ALGORITHM} Credential=${opts.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+        },
+        maxBodyLength: Infinity,
+        // Send the bytes exactly as hashed
+        transformRequest: [(data) => data],
+      });
+      return {
+        url: presignGet(key, date),
+        expiresAt: new Date(date.getTime() + ttl * 1000).toISOString(),
+      };
+    },
+  };
+}
@@ -0,0 +1,131 @@
+// =============================================================================
+// Job scheduler — bounded concurrency per offering plus a global cap.
+//
+// Tasks are grouped by a key (the offering name). A task starts only when both
+// its offering and the runtime as a whole are below their limits; otherwise it
+// waits in a FIFO queue. Once the queue holds `maxQueued` tasks, new work is
+// refused so the caller can push back (e.g. reject a REQUEST-phase job).
+// =============================================================================
+
+import { createLogger } from "./logger.js";
+
+const log = createLogger("scheduler");
+
+export interface SchedulerOptions {
+  /** Max tasks running at once across all offerings. */
+  globalConcurrency: number;
+  /** Max tasks waiting in the queue before `schedule` refuses new work. */
+  maxQueued: number;
+  /** Per-key concurrency limit (e.g. read from offering.json). */
+  resolveLimit: (key: string) => number;
+  /** Called whenever a task is queued, started or finished. */
+  onChange?: (stats: SchedulerStats) => void;
+}
+
+export interface SchedulerStats {
+  running: number;
+  queued: number;
+  globalConcurrency: number;
+  maxQueued: number;
+  offerings: Record<string, { running: number; queued: number; limit: number }>;
+}
+
+export interface JobScheduler {
+  /**
+   * Queue a task under `key`. Returns false (without queueing) when the queue
+   * is full. `force` bypasses the queue limit for work that must not be dropped.
+   */
+  schedule: (key: string, task: () => Promise<void>, force?: boolean) => boolean;
+  stats: () => SchedulerStats;
+  /** Drop every task that has not started yet. Returns how many were dropped. */
+  clearQueue: () => number;
+  /** Resolves once no task is running. */
+  idle: () => Promise<void>;
+}
+
+interface QueuedTask {
+  key: string;
+  task: () => Promise<void>;
+}
+
+export function createScheduler(opts: SchedulerOptions): JobScheduler {
+  const queue: QueuedTask[] = [];
+  const runningByKey = new Map<string, number>();
+  let running = 0;
+  let idleWaiters: Array<() => void> = [];
+
+  const limitFor = (key: string): number => Math.max(1, opts.resolveLimit(key));
+
+  const canStart = (key: string): boolean =>
+    running < opts.globalConcurrency && (runningByKey.get(key) ?? 0) < limitFor(key);
+
+  const start = (item: QueuedTask): void => {
+    running++;
+    runningByKey.set(item.key, (runningByKey.get(item.key) ?? 0) + 1);
+
+    item
+      .task()
+      .catch((err) => log.error(`Task for "${item.key}" failed`, { error: err }))
+      .finally(() => {
+        running--;
+        const left = (runningByKey.get(item.key) ?? 1) - 1;
+        if (left > 0) runningByKey.set(item.key, left);
+        else runningByKey.delete(item.key);
+        drain();
+        opts.onChange?.(stats());
+        if (running === 0) {
+          for (const resolve of idleWaiters) resolve();
+          idleWaiters = [];
+        }
+      });
+  };
+
+  const drain = (): void => {
+    for (let i = 0; i < queue.length && running < opts.globalConcurrency; ) {
+      if (canStart(queue[i].key)) {
+        const [item] = queue.splice(i, 1);
+        start(item);
+      } else {
+        i++;
+      }
+    }
+  };
+
+  const schedule = (key: string, task: () => Promise<void>, force = false): boolean => {
+    if (canStart(key)) {
+      start({ key, task });
+    } else if (!force && queue.length >= opts.maxQueued) {
+      return false;
+    } else {
+      queue.push({ key, task });
+    }
+    opts.onChange?.(stats());
+    return true;
+  };
+
+  const stats = (): SchedulerStats => {
+    const offerings: SchedulerStats["offerings"] = {};
+    const entry = (key: string) =>
+      (offerings[key] ??= { running: 0, queued: 0, limit: limitFor(key) });
+    for (const [key, count] of runningByKey) entry(key).running = count;
+    for (const item of queue) entry(item.key).queued++;
+    return {
+      running,
+      queued: queue.length,
+      globalConcurrency: opts.globalConcurrency,
+      maxQueued: opts.maxQueued,
+      offerings,
+    };
+  };
+
+  const clearQueue = (): number => {
+    const dropped = queue.splice(0).length;
+    if (dropped > 0) opts.onChange?.(stats());
+    return dropped;
+  };
+
+  const idle = (): Promise<void> =>
+    running === 0 ? Promise.resolve() : new Promise((resolve) => idleWaiters.push(resolve));
+
+  return { schedule, stats, clearQueue, idle };
+}
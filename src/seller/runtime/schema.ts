@@ -0,0 +1,251 @@
+// =============================================================================
+// Validation of job requirements and deliverables against the schemas in
+// offering.json (`requirement` and `deliverableSchema`).
+//
+// Two formats are accepted:
+//   - field map (what `acp sell init` generates):
+//       { "amount": { "type": "number", "required": true, "description": "..." } }
+//   - JSON Schema:
+//       { "type": "object", "properties": { "amount": { "type": "number" } },
+//         "required": ["amount"] }
+//
+// Supported keywords: type, required, enum, const, minimum, maximum,
+// exclusiveMinimum, exclusiveMaximum, minLength, maxLength, pattern, items,
+// minItems, maxItems, properties, additionalProperties (false) and default.
+// Requirement values are coerced where unambiguous ("5" → 5 for numbers,
+// 5 → "5" for strings, "true" → true for booleans) and the coerced copy is
+// returned. Deliverables are checked strictly.
+// =============================================================================
+
+export type JsonSchema = Record<string, any>;
+
+export type SchemaCheckResult =
+  | { valid: true; value: Record<string, any> }
+  | { valid: false; errors: string[] };
+
+interface CheckState {
+  errors: string[];
+  coerce: boolean;
+}
+
+/** Field-map keys that are not JSON Schema keywords. */
+const FIELD_MAP_ONLY_KEYS = new Set(["required"]);
+
+function isPlainObject(v: unknown): v is Record<string, any> {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+function isJsonSchema(requirement: Record<string, any>): boolean {
+  return requirement.type === "object" || isPlainObject(requirement.properties);
+}
+
+/**
+ * Normalise an offering's `requirement` into a JSON Schema object. Returns
+ * undefined when the offering declares no requirements.
+ */
+export function toJsonSchema(requirement: unknown): JsonSchema | undefined {
+  if (!isPlainObject(requirement) || Object.keys(requirement).length === 0) return undefined;
+  if (isJsonSchema(requirement)) return requirement;
+
+  const properties: Record<string, JsonSchema> = {};
+  const required: string[] = [];
+  for (const [name, field] of Object.entries(requirement)) {
+    if (!isPlainObject(field)) {
+      properties[name] = {};
+      continue;
+    }
+    const prop: JsonSchema = {};
+    for (const [key, value] of Object.entries(field)) {
+      if (!FIELD_MAP_ONLY_KEYS.has(key)) prop[key] = value;
+    }
+    properties[name] = prop;
+    if (field.required === true) required.push(name);
+  }
+  return { type: "object", properties, required };
+}
+
+function typeOf(v: unknown): string {
+  if (v === null) return "null";
+  if (Array.isArray(v)) return "array";
+  if (typeof v === "number") return Number.isInteger(v) ? "integer" : "number";
+  return typeof v;
+}
+
+function matchesType(v: unknown, type: string): boolean {
+  const actual = typeOf(v);
+  if (type === "number") return actual === "number" || actual === "integer";
+  return actual === type;
+}
+
+function coerce(v: unknown, type: string): { ok: boolean; value?: unknown } {
+  if (type === "number" || type === "integer") {
+    if (typeof v === "string" && v.trim() !== "") {
+      const n = Number(v.trim());
+      if (Number.isFinite(n) && (type === "number" || Number.isInteger(n))) {
+        return { ok: true, value: n };
+      }
+    }
+    return { ok: false };
+  }
+  if (type === "string" && (typeof v === "number" || typeof v === "boolean")) {
+    return { ok: true, value: String(v) };
+  }
+  if (type === "boolean" && typeof v === "string") {
+    const s = v.trim().toLowerCase();
+    if (s === "true" || s === "false") return { ok: true, value: s === "true" };
+  }
+  return { ok: false };
+}
+
+function describe(v: unknown): string {
+  const s = JSON.stringify(v);
+  return s === undefined ? String(v) : s.length > 40 ? `${s.slice(0, 37)}...` : s;
+}
+
+function check(schema: JsonSchema, input: unknown, at: string, state: CheckState): unknown {
+  let value = input;
+
+  // -- type (with coercion) --
+  const types: string[] | undefined =
+    typeof schema.type === "string"
+      ? [schema.type]
+      : Array.isArray(schema.type)
+        ? schema.type
+        : undefined;
+  if (types && !types.some((t) => matchesType(value, t))) {
+    const coerced = state.coerce ? types.map((t) => coerce(value, t)).find((c) => c.ok) : undefined;
+    if (!coerced) {
+      state.errors.push(`${at}: expected ${types.join(" or ")}, got ${describe(value)}`);
+      return value;
+    }
+    value = coerced.value;
+  }
+
+  // -- enum / const --
+  if (Array.isArray(schema.enum) && !schema.enum.some((e: unknown) => e === value)) {
+    state.errors.push(`${at}: must be one of ${schema.enum.map(describe).join(", ")}`);
+  }
+  if ("const" in schema && schema.const !== value) {
+    state.errors.push(`${at}: must be ${describe(schema.const)}`);
+  }
+
+  // -- numbers --
+  if (typeof value === "number") {
+    if (typeof schema.minimum === "number" && value < schema.minimum) {
+      state.errors.push(`${at}: must be >= ${schema.minimum}`);
+    }
+    if (typeof schema.maximum === "number" && value > schema.maximum) {
+      state.errors.push(`${at}: must be <= ${schema.maximum}`);
+    }
+    if (typeof schema.exclusiveMinimum === "number" && value <= schema.exclusiveMinimum) {
+      state.errors.push(`${at}: must be > ${schema.exclusiveMinimum}`);
+    }
+    if (typeof schema.exclusiveMaximum === "number" && value >= schema.exclusiveMaximum) {
+      state.errors.push(`${at}: must be < ${schema.exclusiveMaximum}`);
+    }
+  }
+
+  // -- strings --
+  if (typeof value === "string") {
+    if (typeof schema.minLength === "number" && value.length < schema.minLength) {
+      state.errors.push(`${at}: must be at least ${schema.minLength} characters`);
+    }
+    if (typeof schema.maxLength === "number" && value.length > schema.maxLength) {
+      state.errors.push(`${at}: must be at most ${schema.maxLength} characters`);
+    }
+    if (typeof schema.pattern === "string" && !new RegExp(schema.pattern).test(value)) {
+      state.errors.push(`${at}: must match ${schema.pattern}`);
+    }
+  }
+
+  // -- arrays --
+  if (Array.isArray(value)) {
+    if (typeof schema.minItems === "number" && value.length < schema.minItems) {
+      state.errors.push(`${at}: must have at least ${schema.minItems} items`);
+    }
+    if (typeof schema.maxItems === "number" && value.length > schema.maxItems) {
+      state.errors.push(`${at}: must have at most ${schema.maxItems} items`);
+    }
+    if (isPlainObject(schema.items)) {
+      value = value.map((item, i) => check(schema.items, item, `${at}[${i}]`, state));
+    }
+  }
+
+  // -- objects --
+  if (isPlainObject(value) && (isPlainObject(schema.properties) || schema.required)) {
+    value = checkObject(schema, value, at, state);
+  }
+
+  return value;
+}
+
+function checkObject(
+  schema: JsonSchema,
+  input: Record<string, any>,
+  at: string,
+  state: CheckState
+): Record<string, any> {
+  const properties: Record<string, JsonSchema> = isPlainObject(schema.properties)
+    ? schema.properties
+    : {};
+  const required: string[] = Array.isArray(schema.required) ? schema.required : [];
+  const out: Record<string, any> = { ...input };
+  const prefix = at ? `${at}.` : "";
+
+  for (const name of required) {
+    const v = out[name];
+    if (v === undefined || v === null || v === "") {
+      if (properties[name]?.default === undefined) {
+        state.errors.push(`${prefix}${name}: is required`);
+      }
+    }
+  }
+
+  for (const [name, propSchema] of Object.entries(properties)) {
+    const v = out[name];
+    if (v === undefined || v === null || v === "") {
+      if (propSchema.default !== undefined) out[name] = propSchema.default;
+      continue;
+    }
+    out[name] = check(propSchema, v, `${prefix}${name}`, state);
+  }
+
+  if (schema.additionalProperties === false) {
+    for (const name of Object.keys(out)) {
+      if (!(name in properties)) state.errors.push(`${prefix}${name}: is not an allowed field`);
+    }
+  }
+
+  return out;
+}
+
+/**
+ * Validate requirements against an offering's declared `requirement` schema.
+ * Offerings without a schema accept anything unchanged.
+ */
+export function checkRequirements(requirement: unknown, requirements: unknown): SchemaCheckResult {
+  const schema = toJsonSchema(requirement);
+  const input = isPlainObject(requirements) ? requirements : {};
+  if (!schema) return { valid: true, value: input };
+
+  const state: CheckState = { errors: [], coerce: true };
+  const value = checkObject(schema, input, "", state);
+  return state.errors.length > 0 ? { valid: false, errors: state.errors } : { valid: true, value };
+}
+
+/**
+ * Check a handler's deliverable against the offering's `deliverableSchema`
+ * (JSON Schema). For `{ type, value }` deliverables the schema describes
+ * `value`; string deliverables are checked as-is. Returns the list of
+ * problems (empty when valid). Nothing is coerced.
+ */
+export function checkDeliverable(
+  deliverableSchema: JsonSchema | undefined,
+  deliverable: string | { type: string; value: unknown }
+): string[] {
+  if (!isPlainObject(deliverableSchema)) return [];
+  const state: CheckState = { errors: [], coerce: false };
+  const value = typeof deliverable === "string" ? deliverable : deliverable?.value;
+  check(deliverableSchema, value, "deliverable", state);
+  return state.errors;
+}
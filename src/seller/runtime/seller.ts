@@ -7,11 +7,31 @@
 //   (or)  acp serve start
 // =============================================================================
 
-import { connectAcpSocket } from "./acpSocket.js";
-import { acceptOrRejectJob, requestPayment, deliverJob } from "./sellerApi.js";
-import { loadOffering, listOfferings } from "./offerings.js";
+import { connectAcpSocket, type AcpSocketConnection } from "./acpSocket.js";
+import { acceptOrRejectJob } from "./sellerApi.js";
+import { listOfferings, readOfferingConfig } from "./offerings.js";
+import { listEvaluators } from "./evaluators.js";
+import { createScheduler, type JobScheduler } from "./scheduler.js";
+import { updateRuntimeStatus, type ShutdownStatus } from "./runtimeStatus.js";
+import { replayJournal, pendingJobs } from "./jobJournal.js";
+import { reconcileActiveJobs } from "./reconcile.js";
+import { handleNewTask, resolveOfferingName } from "./jobHandler.js";
+import { watchOfferings } from "./offeringWatcher.js";
+import { startMetricsServer } from "./metricsServer.js";
+import {
+  artifactConfigFromEnv,
+  setArtifactStore,
+  sweepLocalArtifacts,
+  type ArtifactConfig,
+} from "./artifactStore.js";
+import {
+  captureConsole,
+  configureLogging,
+  createLogger,
+  parseLogLevel,
+  SELLER_LOG_PATH,
+} from "./logger.js";
 import { AcpJobPhase, type AcpJobEventData } from "./types.js";
-import type { ExecuteJobResult } from "./offeringTypes.js";
 import { getMyAgentInfo } from "../../lib/wallet.js";
 import {
   checkForExistingProcess,
@@ -20,27 +40,23 @@ import {
   sanitizeAgentName,
 } from "../../lib/config.js";
 
+const log = createLogger("seller");
+
 function setupCleanupHandlers(): void {
   const cleanup = () => {
     removePidFromConfig();
   };
 
   process.on("exit", cleanup);
-  process.on("SIGINT", () => {
-    cleanup();
-    process.exit(0);
-  });
-  process.on("SIGTERM", () => {
-    cleanup();
-    process.exit(0);
-  });
+  process.on("SIGINT", () => shutdown("SIGINT"));
+  process.on("SIGTERM", () => shutdown("SIGTERM"));
   process.on("uncaughtException", (err) => {
-    console.error("[seller] Uncaught exception:", err);
+    log.error("Uncaught exception", { error: err });
     cleanup();
     process.exit(1);
   });
   process.on("unhandledRejection", (reason, promise) => {
-    console.error("[seller] Unhandled rejection at:", promise, "reason:", reason);
+    log.error("Unhandled rejection", { error: reason });
     cleanup();
     process.exit(1);
   });
@@ -50,201 +66,346 @@ function setupCleanupHandlers(): void {
 
 const ACP_URL = process.env.ACP_SOCKET_URL || "https://acpx.virtuals.io";
 let agentDirName: string = "";
+let walletAddress: string = "";
+
+/** Max jobs executing at once across all offerings. */
+const GLOBAL_CONCURRENCY = positiveInt(process.env.ACP_SELLER_CONCURRENCY, 5);
+/** Max jobs waiting for a slot before new REQUEST-phase jobs are turned away. */
+const MAX_QUEUED = positiveInt(process.env.ACP_SELLER_MAX_QUEUE, 50);
+/** Per-offering limit when offering.json does not set `concurrency`. */
+const DEFAULT_OFFERING_CONCURRENCY = 2;
+/** How long running jobs get to finish after SIGTERM/SIGINT before the process exits anyway. */
+const SHUTDOWN_GRACE_MS = positiveInt(process.env.ACP_SELLER_SHUTDOWN_GRACE_MS, 60_000);
+/** Rotate logs/seller.log once it reaches this size, keeping LOG_MAX_FILES old files. */
+const LOG_MAX_BYTES = positiveInt(process.env.ACP_SELLER_LOG_MAX_BYTES, 10 * 1024 * 1024);
+const LOG_MAX_FILES = positiveInt(process.env.ACP_SELLER_LOG_MAX_FILES, 5);
+/** Console copy of the log: "json" (default), "pretty" or "off" (`acp serve start` uses "off"). */
+const LOG_CONSOLE = process.env.ACP_SELLER_LOG_CONSOLE;
+/** Reload offerings when their files change (development only; set ACP_SELLER_HOT_RELOAD=1). */
+const HOT_RELOAD = process.env.ACP_SELLER_HOT_RELOAD === "1";
+/** Serve /metrics (and /healthz) on this port; keep it private. */
+const METRICS_PORT = positiveInt(process.env.ACP_SELLER_METRICS_PORT, 0);
+/** Public port (PORT, as Railway gives a deployed service): only /healthz and /artifacts. */
+const PUBLIC_PORT = positiveInt(process.env.PORT, 0);
+/** How often expired local artifacts are deleted (also once at startup). */
+const ARTIFACT_SWEEP_INTERVAL_MS = 60 * 60 * 1000;
+
+function positiveInt(value: string | undefined, fallback: number): number {
+  const n = Number(value);
+  return Number.isInteger(n) && n > 0 ? n : fallback;
+}
 
-// -- Job handling --
+// -- Scheduling --
 
-function resolveOfferingName(data: AcpJobEventData): string | undefined {
-  try {
-    const negotiationMemo = data.memos.find((m) => m.nextPhase === AcpJobPhase.NEGOTIATION);
-    if (negotiationMemo) {
-      return JSON.parse(negotiationMemo.content).name;
-    }
-  } catch {
-    return undefined;
+/** Queue key for jobs whose offering name cannot be resolved. */
+const UNRESOLVED_OFFERING = "(unresolved)";
+
+const offeringLimits = new Map<string, number>();
+
+function offeringConcurrency(offeringName: string): number {
+  let limit = offeringLimits.get(offeringName);
+  if (limit === undefined) {
+    const configured = readOfferingConfig(offeringName, agentDirName)?.concurrency;
+    limit = Math.min(
+      GLOBAL_CONCURRENCY,
+      positiveInt(String(configured), DEFAULT_OFFERING_CONCURRENCY)
+    );
+    offeringLimits.set(offeringName, limit);
   }
+  return limit;
 }
 
-function resolveServiceRequirements(data: AcpJobEventData): Record<string, any> {
-  const negotiationMemo = data.memos.find((m) => m.nextPhase === AcpJobPhase.NEGOTIATION);
-  if (negotiationMemo) {
+const scheduler: JobScheduler = createScheduler({
+  globalConcurrency: GLOBAL_CONCURRENCY,
+  maxQueued: MAX_QUEUED,
+  resolveLimit: (key) =>
+    key === UNRESOLVED_OFFERING ? GLOBAL_CONCURRENCY : offeringConcurrency(key),
+  onChange: (stats) => updateRuntimeStatus({ scheduler: stats }),
+});
+
+/** Job/phase pairs currently queued or running (true once started), so a job pushed
+ *  by the socket and found again by reconciliation is only handled once. */
+const activeTasks = new Map<string, boolean>();
+
+function dispatchTask(data: AcpJobEventData): void {
+  const taskKey = `${data.id}:${data.phase}`;
+  if (shuttingDown) {
+    log.info(`Shutting down — leaving job ${data.id} for the next start`, { jobId: data.id });
+    return;
+  }
+  if (activeTasks.has(taskKey)) {
+    log.info(`Job ${data.id} already queued for this phase — ignoring duplicate`, {
+      jobId: data.id,
+    });
+    return;
+  }
+
+  const offeringName = resolveOfferingName(data) ?? UNRESOLVED_OFFERING;
+
+  // Paid (TRANSACTION) jobs are always queued; only new requests are turned away.
+  const paid = data.phase !== AcpJobPhase.REQUEST;
+  const receivedAt = Date.now();
+  const run = async () => {
+    activeTasks.set(taskKey, true);
     try {
-      return JSON.parse(negotiationMemo.content).requirement;
-    } catch {
-      return {};
+      await handleNewTask(data, { agentDirName, walletAddress, receivedAt });
+    } finally {
+      activeTasks.delete(taskKey);
     }
+  };
+  activeTasks.set(taskKey, false);
+  const queued = scheduler.schedule(offeringName, run, paid);
+  if (queued) return;
+  activeTasks.delete(taskKey);
+
+  log.warn(
+    `Queue full (${MAX_QUEUED} waiting) — turning away job ${data.id} for "${offeringName}"`,
+    { jobId: data.id, offering: offeringName }
+  );
+  if (data.memoToSign) {
+    acceptOrRejectJob(data.id, {
+      accept: false,
+      reason: "Seller is at capacity, please try again later",
+    }).catch((err) => log.error(`Failed to reject job ${data.id}`, { jobId: data.id, error: err }));
   }
-  return {};
 }
 
-async function handleNewTask(data: AcpJobEventData): Promise<void> {
-  const jobId = data.id;
+// -- Reconciliation --
 
-  console.log(`\n${"=".repeat(60)}`);
-  console.log(`[seller] New task  jobId=${jobId}  phase=${AcpJobPhase[data.phase] ?? data.phase}`);
-  console.log(`         client=${data.clientAddress}  price=${data.price}`);
-  console.log(`         context=${JSON.stringify(data.context)}`);
-  console.log(`${"=".repeat(60)}`);
-
-  // Step 1: Accept / reject
-  if (data.phase === AcpJobPhase.REQUEST) {
-    if (!data.memoToSign) {
-      return;
-    }
+let reconciling = false;
 
-    const negotiationMemo = data.memos.find((m) => m.id == Number(data.memoToSign));
+/** Pick up jobs that changed state while the socket was down (or before we started). */
+async function reconcile(walletAddress: string): Promise<void> {
+  if (reconciling) return;
+  reconciling = true;
+  try {
+    const count = await reconcileActiveJobs(walletAddress, dispatchTask);
+    log.info(`Reconciliation: ${count} active job(s) waiting on the seller`);
+  } catch (err) {
+    log.error("Reconciliation failed", { error: err });
+  } finally {
+    reconciling = false;
+  }
+}
 
-    if (negotiationMemo?.nextPhase !== AcpJobPhase.NEGOTIATION) {
-      return;
-    }
+// -- Shutdown --
 
-    const offeringName = resolveOfferingName(data);
-    const requirements = resolveServiceRequirements(data);
+let shuttingDown = false;
+let socket: AcpSocketConnection | undefined;
+let stopWatchingOfferings: (() => void) | undefined;
+let stopHttpServers: (() => void) | undefined;
 
-    if (!offeringName) {
-      await acceptOrRejectJob(jobId, {
-        accept: false,
-        reason: "Invalid offering name",
-      });
-      return;
-    }
+/** Job ids of tasks that have started and not yet finished. */
+function runningJobIds(): number[] {
+  return [...activeTasks]
+    .filter(([, started]) => started)
+    .map(([key]) => Number(key.split(":")[0]));
+}
 
-    try {
-      const { config, handlers } = await loadOffering(offeringName, agentDirName);
-
-      if (handlers.validateRequirements) {
-        const validationResult = handlers.validateRequirements(requirements);
-
-        let isValid: boolean;
-        let reason: string | undefined;
-
-        if (typeof validationResult === "boolean") {
-          isValid = validationResult;
-          reason = isValid ? undefined : "Validation failed";
-        } else {
-          isValid = validationResult.valid;
-          reason = validationResult.reason;
-        }
-
-        if (!isValid) {
-          const rejectionReason = reason || "Validation failed";
-          console.log(
-            `[seller] Validation failed for offering "${offeringName}" — rejecting: ${rejectionReason}`
-          );
-          await acceptOrRejectJob(jobId, {
-            accept: false,
-            reason: rejectionReason,
-          });
-          return;
-        }
-      }
-
-      await acceptOrRejectJob(jobId, {
-        accept: true,
-        reason: "Job accepted",
-      });
-
-      const funds =
-        config.requiredFunds && handlers.requestAdditionalFunds
-          ? handlers.requestAdditionalFunds(requirements)
-          : undefined;
-
-      const paymentReason = handlers.requestPayment
-        ? handlers.requestPayment(requirements)
-        : (funds?.content ?? "Request accepted");
-
-      await requestPayment(jobId, {
-        content: paymentReason,
-        payableDetail: funds
-          ? {
-              amount: funds.amount,
-              tokenAddress: funds.tokenAddress,
-              recipient: funds.recipient,
-            }
-          : undefined,
-      });
-    } catch (err) {
-      console.error(`[seller] Error processing job ${jobId}:`, err);
-    }
-  }
+/** Exit once everything written to stdout/stderr (the seller log) has been flushed. */
+function flushAndExit(code: number): void {
+  let pending = 2;
+  const done = () => {
+    if (--pending === 0) process.exit(code);
+  };
+  process.stdout.write("", done);
+  process.stderr.write("", done);
+}
 
-  // Handle TRANSACTION (deliver)
-  if (data.phase === AcpJobPhase.TRANSACTION) {
-    const offeringName = resolveOfferingName(data);
-    const requirements = resolveServiceRequirements(data);
-
-    if (offeringName) {
-      try {
-        const { handlers } = await loadOffering(offeringName, agentDirName);
-        console.log(
-          `[seller] Executing offering "${offeringName}" for job ${jobId} (TRANSACTION phase)...`
-        );
-        const result: ExecuteJobResult = await handlers.executeJob(requirements);
-
-        await deliverJob(jobId, {
-          deliverable: result.deliverable,
-          payableDetail: result.payableDetail,
-        });
-        console.log(`[seller] Job ${jobId} — delivered.`);
-      } catch (err) {
-        console.error(`[seller] Error delivering job ${jobId}:`, err);
-      }
-    } else {
-      console.log(`[seller] Job ${jobId} in TRANSACTION but no offering resolved — skipping`);
-    }
+/**
+ * Stop taking new jobs and give the running ones up to SHUTDOWN_GRACE_MS to
+ * finish before exiting. Queued jobs are not started; like jobs still running
+ * when the grace period runs out, they are picked up from the journal and by
+ * reconciliation on the next start. A second signal exits immediately.
+ */
+async function shutdown(signal: string, exitCode = 0): Promise<void> {
+  if (shuttingDown) {
+    log.warn(`${signal} received again — exiting without waiting for jobs`);
+    flushAndExit(1);
     return;
   }
-
-  console.log(
-    `[seller] Job ${jobId} in phase ${AcpJobPhase[data.phase] ?? data.phase} — no action needed`
+  shuttingDown = true;
+  socket?.disconnect();
+  stopWatchingOfferings?.();
+
+  const dropped = scheduler.clearQueue();
+  for (const [key, started] of activeTasks) if (!started) activeTasks.delete(key);
+  const inFlight = runningJobIds();
+  const status: ShutdownStatus = {
+    state: "draining",
+    signal,
+    startedAt: new Date().toISOString(),
+    graceMs: SHUTDOWN_GRACE_MS,
+    inFlight: inFlight.length,
+    dropped,
+  };
+  updateRuntimeStatus({ shutdown: status });
+  log.info(
+    `${signal} received — no longer accepting jobs` +
+      (inFlight.length > 0
+        ? `; waiting up to ${Math.round(SHUTDOWN_GRACE_MS / 1000)}s for ${inFlight.length} running job(s) (${inFlight.join(", ")})`
+        : "") +
+      (dropped > 0 ? `; ${dropped} queued job(s) left for the next start` : "")
   );
+
+  let timer: NodeJS.Timeout | undefined;
+  await Promise.race([
+    scheduler.idle(),
+    new Promise<void>((resolve) => (timer = setTimeout(resolve, SHUTDOWN_GRACE_MS))),
+  ]);
+  clearTimeout(timer);
+
+  const abandoned = runningJobIds();
+  updateRuntimeStatus({
+    shutdown: {
+      ...status,
+      state: "stopped",
+      drained: inFlight.length - abandoned.length,
+      abandoned,
+    },
+  });
+  if (abandoned.length > 0) {
+    log.warn(
+      `Grace period over — ${abandoned.length} job(s) still running (${abandoned.join(", ")}); ` +
+        "they will resume on the next start"
+    );
+  }
+  log.info(`Stopped (${inFlight.length - abandoned.length} job(s) drained)`);
+  stopHttpServers?.();
+  flushAndExit(exitCode);
 }
 
 // -- Main --
 
+function setupLogging(): void {
+  configureLogging({
+    file: { path: SELLER_LOG_PATH, maxBytes: LOG_MAX_BYTES, maxFiles: LOG_MAX_FILES },
+    console: LOG_CONSOLE === "off" ? false : LOG_CONSOLE === "pretty" ? "pretty" : "json",
+    level: parseLogLevel(process.env.ACP_SELLER_LOG_LEVEL) ?? "info",
+  });
+  captureConsole();
+}
+
 async function main() {
+  setupLogging();
+
   checkForExistingProcess();
 
   writePidToConfig(process.pid);
 
   setupCleanupHandlers();
 
-  let walletAddress: string;
+  const journaled = replayJournal();
+  const pending = pendingJobs();
+  log.info(
+    `Job journal: ${journaled.length} job(s) on record, ${pending.length} in progress` +
+      (pending.length > 0 ? ` (${pending.map((r) => r.jobId).join(", ")})` : "")
+  );
+
   try {
     const agentData = await getMyAgentInfo();
     walletAddress = agentData.walletAddress;
     agentDirName = sanitizeAgentName(agentData.name);
-    console.log(`[seller] Agent: ${agentData.name} (dir: ${agentDirName})`);
+    log.info(`Agent: ${agentData.name} (dir: ${agentDirName})`);
   } catch (err) {
-    console.error("[seller] Failed to resolve agent info:", err);
+    log.error("Failed to resolve agent info", { error: err });
     process.exit(1);
   }
 
   const offerings = listOfferings(agentDirName);
-  console.log(
-    `[seller] Available offerings: ${offerings.length > 0 ? offerings.join(", ") : "(none)"}`
+  log.info(`Available offerings: ${offerings.length > 0 ? offerings.join(", ") : "(none)"}`);
+  const evaluators = listEvaluators(agentDirName);
+  if (evaluators.length > 0) log.info(`Evaluators: ${evaluators.join(", ")}`);
+  log.info(
+    `Concurrency: ${GLOBAL_CONCURRENCY} global, queue limit ${MAX_QUEUED}` +
+      (offerings.length > 0
+        ? ` (${offerings.map((o) => `${o}=${offeringConcurrency(o)}`).join(", ")})`
+        : "")
   );
+  updateRuntimeStatus({ scheduler: scheduler.stats() });
+
+  let artifacts: ArtifactConfig | undefined;
+  try {
+    artifacts = artifactConfigFromEnv(PUBLIC_PORT || METRICS_PORT);
+  } catch (err) {
+    log.error("Invalid artifact store configuration", { error: err });
+    process.exit(1);
+  }
+  setArtifactStore(artifacts);
+  if (artifacts) {
+    log.info(
+      `Artifact store: ${artifacts.store.kind} (deliverables over ${artifacts.thresholdBytes} bytes)`
+    );
+  }
+  const local = artifacts?.local;
+  if (local) {
+    sweepLocalArtifacts(local.ttlSeconds);
+    setInterval(() => sweepLocalArtifacts(local.ttlSeconds), ARTIFACT_SWEEP_INTERVAL_MS).unref();
+  }
+
+  const health = () => {
+    const connection = socket?.state();
+    const connected = connection?.status === "connected" && connection.roomJoined;
+    return {
+      healthy: connected && !shuttingDown,
+      socket: shuttingDown ? "stopping" : connected ? "connected" : "disconnected",
+    };
+  };
+  const httpStops: Array<() => void> = [];
+  if (METRICS_PORT > 0) {
+    httpStops.push(
+      startMetricsServer({
+        port: METRICS_PORT,
+        metrics: true,
+        // Artifacts belong on the public port when there is one
+        artifacts: PUBLIC_PORT > 0 && PUBLIC_PORT !== METRICS_PORT ? undefined : artifacts?.local,
+        health,
+      })
+    );
+  }
+  if (PUBLIC_PORT > 0 && PUBLIC_PORT !== METRICS_PORT) {
+    httpStops.push(
+      startMetricsServer({ port: PUBLIC_PORT, metrics: false, artifacts: artifacts?.local, health })
+    );
+  }
+  if (httpStops.length > 0) {
+    stopHttpServers = () => httpStops.forEach((stop) => stop());
+  }
+
+  if (HOT_RELOAD) {
+    // A changed offering.json may set a different concurrency; re-read it on next use
+    const watcher = watchOfferings(agentDirName, {
+      onReload: (name) => offeringLimits.delete(name),
+      onRemove: (name) => offeringLimits.delete(name),
+    });
+    if (watcher) {
+      stopWatchingOfferings = () => watcher.close();
+      log.info("Watching offerings for changes (hot reload)");
+    }
+  }
 
-  connectAcpSocket({
+  if (shuttingDown) return;
+  socket = connectAcpSocket({
     acpUrl: ACP_URL,
     walletAddress,
     callbacks: {
-      onNewTask: (data) => {
-        handleNewTask(data).catch((err) =>
-          console.error("[seller] Unhandled error in handleNewTask:", err)
-        );
+      onNewTask: (data) => dispatchTask(data),
+      onConnect: () => {
+        reconcile(walletAddress);
       },
-      onEvaluate: (data) => {
-        console.log(
-          `[seller] onEvaluate received for job ${data.id} — no action (evaluation handled externally)`
-        );
+      onStateChange: (connection) => updateRuntimeStatus({ connection }),
+      onReconnectFailed: () => {
+        log.error("Lost the ACP connection for good — stopping so the seller can be restarted");
+        shutdown("Reconnect failure", 1);
       },
+      onEvaluate: (data) => dispatchTask(data),
     },
   });
 
-  console.log("[seller] Seller runtime is running. Waiting for jobs...\n");
+  log.info("Seller runtime is running. Waiting for jobs...");
 }
 
 main().catch((err) => {
-  console.error("[seller] Fatal error:", err);
+  log.error("Fatal error", { error: err });
   process.exit(1);
 });
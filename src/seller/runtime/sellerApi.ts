@@ -1,8 +1,140 @@
 // =============================================================================
-// Seller API calls — accept/reject, request payment, deliver.
+// Seller API calls — accept/reject, request payment, deliver, job lookups.
 // =============================================================================
 
 import client from "../../lib/client.js";
+import { withRetry, isAlreadyApplied, errorStatus, RetryFailedError } from "./retry.js";
+import {
+  addDeadLetter,
+  clearDeadLetters,
+  getDeadLetter,
+  removeDeadLetter,
+  type DeadLetterAction,
+} from "./deadLetter.js";
+import { createLogger } from "./logger.js";
+import { apiErrors } from "./metrics.js";
+
+const log = createLogger("sellerApi");
+
+/**
+ * Run one API call, counting a failure in acp_seller_api_errors_total under
+ * `endpoint` (a path template such as "/acp/jobs/:id"). A 409 confirming that
+ * the call's `idempotencyKey` was already applied is not counted.
+ */
+async function counted<T>(
+  endpoint: string,
+  call: () => Promise<T>,
+  idempotencyKey?: string
+): Promise<T> {
+  try {
+    return await call();
+  } catch (err) {
+    if (!(idempotencyKey && isAlreadyApplied(err, idempotencyKey))) {
+      apiErrors.inc({ endpoint, status: String(errorStatus(err) ?? "network") });
+    }
+    throw err;
+  }
+}
+
+// -- Retrying POST --
+
+/** Job details stored alongside a dead-lettered call so it can be understood later. */
+export interface JobMeta {
+  offering?: string;
+  requirements?: Record<string, any>;
+}
+
+/** Endpoint of each action; ":id" is the job id. */
+const ACTION_PATHS: Record<Exclude<DeadLetterAction, "execute" | "refund">, string> = {
+  accept: "/acp/providers/jobs/:id/accept",
+  requestPayment: "/acp/providers/jobs/:id/requirement",
+  // Same endpoint as accept, under its own idempotency key: the job was accepted earlier
+  reject: "/acp/providers/jobs/:id/accept",
+  deliver: "/acp/providers/jobs/:id/deliverable",
+};
+
+function actionUrl(action: keyof typeof ACTION_PATHS, jobId: number): string {
+  return ACTION_PATHS[action].replace(":id", String(jobId));
+}
+
+/** A provider action as it would be POSTed to the ACP API. */
+export interface ProviderRequest {
+  jobId: number;
+  action: keyof typeof ACTION_PATHS;
+  path: string;
+  headers: Record<string, string>;
+  body: object;
+}
+
+export type ProviderTransport = (request: ProviderRequest) => Promise<void>;
+
+let transport: ProviderTransport | undefined;
+
+/**
+ * Hand provider actions to `next` instead of POSTing them (no retries, no
+ * dead-lettering); pass undefined to go back to the ACP API. Used by
+ * `acp job simulate` to capture what the runtime would have sent.
+ */
+export function setProviderTransport(next: ProviderTransport | undefined): void {
+  transport = next;
+}
+
+/**
+ * POST a provider action with retries. The idempotency key is stable per job
+ * and action, so a retry after a lost response cannot apply the action twice;
+ * a 409 that names the same key is treated as "already done". When every attempt fails the call is
+ * written to the dead-letter store before the error is rethrown; a later
+ * success clears the job's entry for the action.
+ */
+async function postProviderAction(
+  jobId: number,
+  action: keyof typeof ACTION_PATHS,
+  params: object,
+  meta: JobMeta = {}
+): Promise<void> {
+  const url = actionUrl(action, jobId);
+  const key = `job-${jobId}-${action}`;
+  const headers = { "Idempotency-Key": key };
+  if (transport) {
+    await transport({ jobId, action, path: url, headers, body: params });
+    return;
+  }
+  const fields = { jobId, offering: meta.offering };
+  const started = Date.now();
+  try {
+    await withRetry(`${action} job ${jobId}`, () =>
+      counted(ACTION_PATHS[action], () => client.post(url, params, { headers }), key)
+    );
+    log.debug(`${action} job ${jobId} — done`, { ...fields, durationMs: Date.now() - started });
+    clearDeadLetters(jobId, action);
+  } catch (err) {
+    const cause = err instanceof RetryFailedError ? err.cause : err;
+    if (isAlreadyApplied(cause, key)) {
+      log.info(`${action} job ${jobId} — already applied (409), continuing`, {
+        ...fields,
+        durationMs: Date.now() - started,
+      });
+      clearDeadLetters(jobId, action);
+      return;
+    }
+    const entry = addDeadLetter({
+      jobId,
+      action,
+      params: params as Record<string, any>,
+      ...meta,
+      ...(action === "deliver" ? { deliverable: (params as DeliverJobParams).deliverable } : {}),
+      error: err instanceof Error ? err.message : String(err),
+      status: errorStatus(err),
+      attempts: err instanceof RetryFailedError ? err.attempts : 1,
+    });
+    log.error(`${action} job ${jobId} — moved to dead-letter store (${entry.id})`, {
+      ...fields,
+      durationMs: Date.now() - started,
+      error: err instanceof Error ? err.message : String(err),
+    });
+    throw err;
+  }
+}
 
 // -- Accept / Reject --
 
@@ -13,15 +145,15 @@ export interface AcceptOrRejectParams {
 
 export async function acceptOrRejectJob(
   jobId: number,
-  params: AcceptOrRejectParams
+  params: AcceptOrRejectParams,
+  meta?: JobMeta
 ): Promise<void> {
-  console.log(
-    `[sellerApi] acceptOrRejectJob  jobId=${jobId}  accept=${
-      params.accept
-    }  reason=${params.reason ?? "(none)"}`
+  log.info(
+    `acceptOrRejectJob  jobId=${jobId}  accept=${params.accept}  reason=${params.reason ?? "(none)"}`,
+    { jobId, offering: meta?.offering }
   );
 
-  await client.post(`/acp/providers/jobs/${jobId}/accept`, params);
+  await postProviderAction(jobId, "accept", params, meta);
 }
 
 // -- Payment request --
@@ -35,8 +167,24 @@ export interface RequestPaymentParams {
   };
 }
 
-export async function requestPayment(jobId: number, params: RequestPaymentParams): Promise<void> {
-  await client.post(`/acp/providers/jobs/${jobId}/requirement`, params);
+export async function requestPayment(
+  jobId: number,
+  params: RequestPaymentParams,
+  meta?: JobMeta
+): Promise<void> {
+  await postProviderAction(jobId, "requestPayment", params, meta);
+}
+
+// -- Reject after payment --
+
+/**
+ * Reject a job that was already accepted and paid (e.g. because the requested
+ * funds fell short), instead of delivering it.
+ */
+export async function rejectPaidJob(jobId: number, reason: string, meta?: JobMeta): Promise<void> {
+  log.info(`rejectPaidJob  jobId=${jobId}  reason=${reason}`, { jobId, offering: meta?.offering });
+
+  await postProviderAction(jobId, "reject", { accept: false, reason }, meta);
 }
 
 // -- Deliver --
@@ -49,7 +197,11 @@ export interface DeliverJobParams {
   };
 }
 
-export async function deliverJob(jobId: number, params: DeliverJobParams): Promise<void> {
+export async function deliverJob(
+  jobId: number,
+  params: DeliverJobParams,
+  meta?: JobMeta
+): Promise<void> {
   const delivStr =
     typeof params.deliverable === "string"
       ? params.deliverable
@@ -57,7 +209,72 @@ export async function deliverJob(jobId: number, params: DeliverJobParams): Promi
   const transferStr = params.payableDetail
     ? `  transfer: ${params.payableDetail.amount} @ ${params.payableDetail.tokenAddress}`
     : "";
-  console.log(`[sellerApi] deliverJob  jobId=${jobId}  deliverable=${delivStr}${transferStr}`);
+  log.info(`deliverJob  jobId=${jobId}  deliverable=${delivStr}${transferStr}`, {
+    jobId,
+    offering: meta?.offering,
+  });
+
+  await postProviderAction(jobId, "deliver", params, meta);
+}
 
-  return await client.post(`/acp/providers/jobs/${jobId}/deliverable`, params);
+// -- Dead-letter replay --
+
+/**
+ * Re-send a dead-lettered call exactly as it was. On success the entry is
+ * removed; on failure it stays (a fresh entry is not added).
+ */
+export async function replayDeadLetter(id: string): Promise<void> {
+  const entry = getDeadLetter(id);
+  if (!entry) {
+    throw new Error(`Dead-letter entry not found: ${id}`);
+  }
+  if (entry.action === "execute") {
+    throw new Error(`Entry ${id} is a failed handler execution — there is no API call to replay`);
+  }
+  if (entry.action === "refund") {
+    throw new Error(`Entry ${id} is a refund owed to the buyer — it has to be returned by hand`);
+  }
+  const action = entry.action;
+  const url = actionUrl(action, entry.jobId);
+  const key = `job-${entry.jobId}-${entry.action}`;
+  const headers = { "Idempotency-Key": key };
+  try {
+    await withRetry(`replay ${entry.action} job ${entry.jobId}`, () =>
+      counted(ACTION_PATHS[action], () => client.post(url, entry.params, { headers }), key)
+    );
+  } catch (err) {
+    if (!isAlreadyApplied(err, key)) throw err;
+  }
+  removeDeadLetter(id);
+}
+
+// -- Job lookups (used for startup reconciliation) --
+
+/** Raw job as returned by the REST API — phases and memo fields may be names or numbers. */
+export type RawJob = Record<string, any> & { id: number };
+
+const ACTIVE_JOBS_PAGE_SIZE = 50;
+const ACTIVE_JOBS_MAX_PAGES = 20;
+
+/** Fetch every active job for the current agent (same endpoint as `acp job active`). */
+export async function fetchActiveJobs(): Promise<RawJob[]> {
+  const jobs: RawJob[] = [];
+  for (let page = 1; page <= ACTIVE_JOBS_MAX_PAGES; page++) {
+    const res = await counted("/acp/jobs/active", () =>
+      client.get<{ data: RawJob[] }>("/acp/jobs/active", {
+        params: { page, pageSize: ACTIVE_JOBS_PAGE_SIZE },
+      })
+    );
+    const batch = res.data.data ?? [];
+    jobs.push(...batch);
+    if (batch.length < ACTIVE_JOBS_PAGE_SIZE) break;
+  }
+  return jobs;
+}
+
+export async function fetchJob(jobId: number): Promise<RawJob | undefined> {
+  const res = await counted("/acp/jobs/:id", () =>
+    client.get<{ data: RawJob }>(`/acp/jobs/${jobId}`)
+  );
+  return res.data.data ?? undefined;
 }
@@ -0,0 +1,224 @@
+// =============================================================================
+// Simulated buyer (`acp job simulate`).
+//
+// Synthesizes the job events ACP would push for one job — REQUEST, then
+// TRANSACTION once payment was requested, then EVALUATION once delivered —
+// and feeds them to the seller's job handler in this process. Provider
+// actions are captured instead of POSTed, and the job journal, dead letters
+// and offering stores are kept in memory, so nothing reaches ACP or the real
+// seller's state.
+// =============================================================================
+
+import { handleNewTask, type SellerContext } from "./jobHandler.js";
+import { getJobRecord, useInMemoryJournal, type JournalEntry } from "./jobJournal.js";
+import { listDeadLetters, useInMemoryDeadLetters, type DeadLetterEntry } from "./deadLetter.js";
+import { setProviderTransport, type ProviderRequest } from "./sellerApi.js";
+import { createMemoryStore } from "./handlerContext.js";
+import { readOfferingConfig } from "./offerings.js";
+import { AcpJobPhase, MemoType, type AcpJobEventData, type AcpMemoData } from "./types.js";
+import type { KeyValueStore } from "./offeringTypes.js";
+
+/** Stand-in buyer wallet for simulated jobs. */
+export const SIMULATED_BUYER_ADDRESS = "0x000000000000000000000000000000000000b0b0";
+
+export interface SimulateOptions {
+  /** Offering name written into the negotiation memo. */
+  offering: string;
+  requirements: Record<string, any>;
+  seller: SellerContext;
+  /** Leave out the negotiation memo (default: included). */
+  negotiationMemo?: boolean;
+  /** Raw negotiation memo content instead of `{ name, requirement }`. */
+  memoContent?: string;
+  /** Leave `memoToSign` unset on the REQUEST event (default: set). */
+  memoToSign?: boolean;
+  /** Minutes the buyer takes to pay after the payment request (default: 0). */
+  payAfterMinutes?: number;
+}
+
+export interface SimulatedPhase {
+  phase: keyof typeof AcpJobPhase;
+  /** The event fed to the job handler. */
+  event: AcpJobEventData;
+  /** What the seller would have sent to the ACP API while handling it. */
+  requests: ProviderRequest[];
+  /** Journal steps recorded while handling it. */
+  journal: JournalEntry[];
+}
+
+export type SimulationOutcome = "completed" | "rejected" | "stalled";
+
+export interface Simulation {
+  jobId: number;
+  offering: string;
+  outcome: SimulationOutcome;
+  /** Why the job was rejected or where it stalled. */
+  reason?: string;
+  phases: SimulatedPhase[];
+  deadLetters: DeadLetterEntry[];
+}
+
+function memo(
+  id: number,
+  memoType: MemoType,
+  content: string,
+  nextPhase: AcpJobPhase,
+  payableDetail?: Record<string, any>,
+  createdAt = new Date()
+): AcpMemoData {
+  return {
+    id,
+    memoType,
+    content,
+    nextPhase,
+    createdAt: createdAt.toISOString(),
+    ...(payableDetail ? { payableDetail } : {}),
+  };
+}
+
+/** Drive one simulated job through every phase the seller takes part in. */
+export async function runSimulation(opts: SimulateOptions): Promise<Simulation> {
+  useInMemoryJournal();
+  useInMemoryDeadLetters();
+
+  const stores = new Map<string, KeyValueStore>();
+  const seller: SellerContext = {
+    ...opts.seller,
+    store: (offering) => {
+      if (!stores.has(offering)) stores.set(offering, createMemoryStore());
+      return stores.get(offering)!;
+    },
+  };
+
+  let captured: ProviderRequest[] = [];
+  setProviderTransport(async (request) => {
+    captured.push(request);
+  });
+
+  const jobId = Math.floor(Date.now() / 1000);
+  const price = readOfferingConfig(opts.offering, opts.seller.agentDirName)?.jobFee ?? 0;
+  const memos: AcpMemoData[] = [];
+  const phases: SimulatedPhase[] = [];
+
+  const feed = async (phase: AcpJobPhase, memoToSign?: number) => {
+    const event: AcpJobEventData = {
+      id: jobId,
+      phase,
+      clientAddress: SIMULATED_BUYER_ADDRESS,
+      providerAddress: opts.seller.walletAddress,
+      evaluatorAddress: "",
+      price,
+      memos: [...memos],
+      context: {},
+      createdAt: new Date().toISOString(),
+      ...(memoToSign !== undefined ? { memoToSign } : {}),
+    };
+    const journaled = getJobRecord(jobId)?.steps.length ?? 0;
+    captured = [];
+    await handleNewTask(event, seller);
+    const result: SimulatedPhase = {
+      phase: AcpJobPhase[phase] as keyof typeof AcpJobPhase,
+      event,
+      requests: captured,
+      journal: getJobRecord(jobId)?.steps.slice(journaled) ?? [],
+    };
+    phases.push(result);
+    return result;
+  };
+
+  const finish = (outcome: SimulationOutcome, reason?: string): Simulation => ({
+    jobId,
+    offering: opts.offering,
+    outcome,
+    ...(reason ? { reason } : {}),
+    phases,
+    deadLetters: listDeadLetters(),
+  });
+
+  /** Why the seller stopped, with the handler error if the phase journaled one. */
+  const stallReason = (phase: SimulatedPhase, fallback: string) => {
+    const failed = phase.journal.find((s) => s.step === "failed");
+    return failed?.data?.error ? `${fallback}: ${failed.data.error}` : fallback;
+  };
+
+  try {
+    // -- REQUEST: buyer opens the job with the negotiation memo --
+    if (opts.negotiationMemo !== false) {
+      const content =
+        opts.memoContent ?? JSON.stringify({ name: opts.offering, requirement: opts.requirements });
+      memos.push(memo(1, MemoType.MESSAGE, content, AcpJobPhase.NEGOTIATION));
+    }
+    const request = await feed(AcpJobPhase.REQUEST, opts.memoToSign === false ? undefined : 1);
+
+    const decision = request.requests.find((r) => r.action === "accept");
+    const body = decision?.body as { accept?: boolean; reason?: string } | undefined;
+    if (body && body.accept === false) return finish("rejected", body.reason);
+
+    const paymentRequest = request.requests.find((r) => r.action === "requestPayment");
+    if (!paymentRequest) {
+      const what = decision
+        ? "Seller accepted but did not request payment"
+        : "Seller neither accepted nor rejected the job";
+      return finish("stalled", stallReason(request, what));
+    }
+
+    // -- TRANSACTION: buyer pays (and sends the requested funds in full) --
+    const payment = paymentRequest.body as {
+      content?: string;
+      payableDetail?: Record<string, any>;
+    };
+    // A buyer paying late: everything up to the payment request happened that long ago
+    const delayMs = (opts.payAfterMinutes ?? 0) * 60_000;
+    const requestedAt = new Date(Date.now() - delayMs);
+    if (delayMs > 0) {
+      for (const m of memos) m.createdAt = requestedAt.toISOString();
+    }
+    memos.push(
+      memo(
+        2,
+        payment.payableDetail ? MemoType.PAYABLE_REQUEST : MemoType.MESSAGE,
+        payment.content ?? "",
+        AcpJobPhase.TRANSACTION,
+        payment.payableDetail,
+        requestedAt
+      )
+    );
+    if (payment.payableDetail) {
+      memos.push(
+        memo(
+          3,
+          MemoType.PAYABLE_TRANSFER,
+          JSON.stringify(payment.payableDetail),
+          AcpJobPhase.TRANSACTION,
+          payment.payableDetail
+        )
+      );
+    }
+    const transaction = await feed(AcpJobPhase.TRANSACTION);
+
+    const refusal = transaction.requests.find((r) => r.action === "reject");
+    const refused = refusal?.body as { accept?: boolean; reason?: string } | undefined;
+    if (refused && refused.accept === false) return finish("rejected", refused.reason);
+
+    const delivery = transaction.requests.find((r) => r.action === "deliver");
+    if (!delivery) {
+      return finish("stalled", stallReason(transaction, "Seller did not deliver"));
+    }
+
+    // -- EVALUATION: deliverable submitted --
+    const { deliverable } = delivery.body as { deliverable?: unknown };
+    memos.push(
+      memo(
+        memos.length + 1,
+        MemoType.MESSAGE,
+        typeof deliverable === "string" ? deliverable : JSON.stringify(deliverable),
+        AcpJobPhase.EVALUATION
+      )
+    );
+    await feed(AcpJobPhase.EVALUATION);
+
+    return finish("completed");
+  } finally {
+    setProviderTransport(undefined);
+  }
+}
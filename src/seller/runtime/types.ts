@@ -37,6 +37,8 @@ export interface AcpMemoData {
   expiry?: string | null;
   createdAt?: string;
   type?: string;
+  /** Token, amount and recipient of PAYABLE_* memos. */
+  payableDetail?: Record<string, any>;
 }
 
 /** Shape of the job payload delivered via socket `onNewTask` / `onEvaluate`. */
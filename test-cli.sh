@@ -3,7 +3,8 @@
 # ACP CLI Test Script
 #
 # Exercises all non-destructive CLI commands in both human and --json modes.
-# Requires a valid API key in config.json (run `acp setup` first).
+# Requires a valid API key in config.json (run `acp setup` first). To run it
+# offline, start `acp mock` and export the env vars it prints first.
 #
 # Usage:  bash test-cli.sh
 # =============================================================================
@@ -174,6 +175,35 @@ skip_test "job create" "would create a real job"
 run_test "job status (invalid id)"      "$CLI job status 999999 || true"
 run_test_json "job status --json"       "$CLI job status 999999 --json || true"
 
+# -- Job simulate --
+echo ""
+echo "Job Simulate"
+echo "--------------------------------------------------"
+# A buyer who pays an hour after the payment request: the SLA starts at the
+# payment, so the handler must still run instead of the job timing out
+simulate_late_payment() {
+  local reqs="{}"
+  local fixture
+  fixture=$(ls src/seller/offerings/*/"$1"/fixtures/*.json 2>/dev/null | head -1 || true)
+  if [ -n "$fixture" ]; then
+    reqs=$(python3 -c "import sys, json; print(json.dumps(json.load(open(sys.argv[1]))['requirements']))" "$fixture")
+  fi
+  $CLI job simulate "$1" --requirements "$reqs" --pay-after 60 --json | python3 -c "
+import sys, json
+sim = json.load(sys.stdin)
+delivered = [r for p in sim['phases'] for r in p['requests'] if r['action'] == 'deliver']
+assert delivered, sim.get('reason', 'not delivered')
+value = delivered[0]['body']['deliverable']
+assert not (isinstance(value, dict) and value.get('type') == 'error' and value['value'].get('error') == 'timeout'), 'timed out'
+"
+}
+SIM_OFFERING=$($CLI sell list --json 2>/dev/null | python3 -c "import sys, json; print(next((o['dirName'] for o in json.load(sys.stdin) if not o['acpOnly']), ''))" || true)
+if [ -n "$SIM_OFFERING" ]; then
+  run_test "job simulate --pay-after (late buyer)" "simulate_late_payment $SIM_OFFERING"
+else
+  skip_test "job simulate --pay-after" "no local offerings"
+fi
+
 # -- Sell --
 echo ""
 echo "Sell Commands"